@@ -4,6 +4,7 @@
 require 'sinatra'
 require 'sinatra/reloader'
 require 'net/http'
+require 'cgi'
 require 'octokit'
 
 %w[
@@ -104,10 +105,13 @@ def authenticate!
 end
 
 module GitHubExtras
+  # How many commits on a branch are searched for a run, each costing an API request
+  MAX_BRANCH_COMMITS = 100
+
   module_function
   def get_branch_latest_run_id(client, repo:, branch:, workflow_path:)
-    self.commits(client, repo, branch) do |commit|
-      runs_url = "https://api.github.com/repos/#{repo}/actions/runs?event=push&branch=#{branch}&commit_sha=#{commit['sha']}&status=success&exclude_pull_requests=true"
+    enum_for(:commits, client, repo, branch).first(MAX_BRANCH_COMMITS).each do |commit|
+      runs_url = "https://api.github.com/repos/#{repo}/actions/runs?event=push&branch=#{CGI.escape(branch)}&commit_sha=#{commit['sha']}&status=success&exclude_pull_requests=true"
       runs = client.get(runs_url)
       runs['workflow_runs'].each do |run|
         if run['path'] == workflow_path
@@ -115,7 +119,7 @@ module GitHubExtras
         end
       end
     end
-    raise "Run not found: #{workflow_path}"
+    raise "No successful run for #{workflow_path} in the latest #{MAX_BRANCH_COMMITS} commits on #{branch}"
   end
 
   def get_pull_request_latest_run_id(client, repo:, pr_number:, workflow_path:)
@@ -131,17 +135,39 @@ module GitHubExtras
     raise "Run not found: #{workflow_path}"
   end
 
+  def get_commit_run_id(client, repo:, ref:, workflow_path:)
+    # Resolve abbreviated SHAs since the runs API only accepts full ones
+    sha = client.commit(repo, ref)['sha']
+    runs_url = "https://api.github.com/repos/#{repo}/actions/runs?head_sha=#{sha}&status=success"
+    runs = client.get(runs_url)
+    runs['workflow_runs'].each do |run|
+      if run['path'] == workflow_path
+        return run['id']
+      end
+    end
+    raise "Run not found: #{workflow_path}"
+  end
+
+  # Returns the successful runs of the workflow for the latest `limit` commits on the branch, newest first
+  def get_branch_runs(client, repo:, branch:, workflow_path:, limit:)
+    enum_for(:commits, client, repo, branch).first(limit).filter_map do |commit|
+      runs_url = "https://api.github.com/repos/#{repo}/actions/runs?event=push&branch=#{CGI.escape(branch)}&commit_sha=#{commit['sha']}&status=success&exclude_pull_requests=true"
+      runs = client.get(runs_url)
+      runs['workflow_runs'].find { |run| run['path'] == workflow_path }
+    end
+  end
+
   def commits(client, repo, branch)
     commits = client.commits(repo, branch)
-    last_response = client.last_response
-    while last_response.rels[:next]
+    rels = client.last_response.rels
+    loop do
       commits.each do |commit|
         puts "Checking commit #{commit['sha']}"
         yield commit
       end
-      page += 1
-      commits = last_response.rels[:next].get
-      last_response = client.last_response
+      break unless rels[:next]
+      response = rels[:next].get
+      commits, rels = response.data, response.rels
     end
   end
 end
@@ -173,12 +199,18 @@ def download_info_from_run_id(client, repo, workflow_path, run_id)
   }.to_json
 end
 
+def repo_param
+  repo = params[:repo] || "ruby/ruby"
+  raise "Invalid ?repo= parameter: #{repo}" unless repo.match?(%r{\A[\w.-]+/[\w.-]+\z})
+  repo
+end
+
 get '/download_info' do
   access_token = session[:access_token]
   return 401 unless access_token
 
   payload = params[:payload] or raise "?payload= parameter is required"
-  repo = "ruby/ruby"
+  repo = repo_param
   workflow_path = ".github/workflows/wasm.yml"
 
   client = Octokit::Client.new(access_token: access_token)
@@ -188,6 +220,10 @@ get '/download_info' do
   when "pr"
     pr_number = payload
     run_id = GitHubExtras.get_pull_request_latest_run_id(client, repo: repo, pr_number: pr_number, workflow_path: workflow_path)
+  when "branch"
+    run_id = GitHubExtras.get_branch_latest_run_id(client, repo: repo, branch: payload, workflow_path: workflow_path)
+  when "commit"
+    run_id = GitHubExtras.get_commit_run_id(client, repo: repo, ref: payload, workflow_path: workflow_path)
   else
     raise "?source= parameter is missing or invalid"
   end
@@ -200,6 +236,28 @@ get '/download_info' do
   return download_info_from_run_id(client, repo, workflow_path, run_id)
 end
 
+get '/branch_runs' do
+  access_token = session[:access_token]
+  return 401 unless access_token
+
+  repo = repo_param
+  workflow_path = ".github/workflows/wasm.yml"
+  branch = params[:branch] || "master"
+  limit = Integer(params[:limit] || 50).clamp(1, GitHubExtras::MAX_BRANCH_COMMITS)
+
+  client = Octokit::Client.new(access_token: access_token)
+  runs = GitHubExtras.get_branch_runs(client, repo: repo, branch: branch, workflow_path: workflow_path, limit: limit)
+
+  content_type :json
+  runs.map do |run|
+    {
+      id: run['id'],
+      html_url: run['html_url'],
+      head_commit: run['head_commit'].to_h
+    }
+  end.to_json
+end
+
 get '/sign_in' do
   if !authenticated?
     authenticate!
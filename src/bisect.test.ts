@@ -0,0 +1,29 @@
+import { findFirstChange } from "./bisect"
+import { expect, test } from "vitest"
+
+const behaviours = (changedAt: number, count: number) => Array.from({ length: count }, (_, i) => i < changedAt)
+
+test("finds the first changed entry", async () => {
+    for (let changedAt = 1; changedAt < 10; changedAt++) {
+        const passes = behaviours(changedAt, 10)
+        expect(await findFirstChange(passes.length, async (i) => passes[i])).toEqual(changedAt)
+    }
+})
+
+test("works in both directions", async () => {
+    const fails = behaviours(3, 8).map((passed) => !passed)
+    expect(await findFirstChange(fails.length, async (i) => fails[i])).toEqual(3)
+})
+
+test("no change", async () => {
+    expect(await findFirstChange(5, async () => true)).toBeNull()
+    expect(await findFirstChange(1, async () => true)).toBeNull()
+})
+
+test("tests a logarithmic number of entries", async () => {
+    const passes = behaviours(700, 1000)
+    const tested: number[] = []
+    const found = await findFirstChange(passes.length, async (i) => passes[i], (i) => tested.push(i))
+    expect(found).toEqual(700)
+    expect(tested.length).toBeLessThanOrEqual(2 + Math.ceil(Math.log2(1000)))
+})
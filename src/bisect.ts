@@ -0,0 +1,43 @@
+/**
+ * Binary-searches a sequence ordered from oldest to newest for the first entry
+ * whose behaviour differs from the oldest one, like `git bisect`.
+ * The behaviour is assumed to change only once in the sequence.
+ * @param count The number of entries
+ * @param test Checks the behaviour of the entry at the given index
+ * @param onTested Called after each test, e.g. to report progress
+ * @returns The index of the first entry that behaves differently from the oldest one,
+ *          or null if the oldest and the newest behave the same
+ */
+async function findFirstChange(
+    count: number,
+    test: (index: number) => Promise<boolean>,
+    onTested: (index: number, passed: boolean) => void = () => {}
+): Promise<number | null> {
+    if (count < 2) {
+        return null
+    }
+    const check = async (index: number) => {
+        const passed = await test(index)
+        onTested(index, passed)
+        return passed
+    }
+    const oldest = await check(0)
+    const newest = await check(count - 1)
+    if (oldest === newest) {
+        return null
+    }
+    // Invariant: `low` behaves like the oldest and `high` does not
+    let low = 0
+    let high = count - 1
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2)
+        if (await check(middle) === oldest) {
+            low = middle
+        } else {
+            high = middle
+        }
+    }
+    return high
+}
+
+export { findFirstChange }
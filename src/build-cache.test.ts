@@ -0,0 +1,31 @@
+import { selectEvictions, type BuildCacheEntry } from "./build-cache"
+import { expect, test } from "vitest"
+
+const entry = (key: string, size: number, lastUsed: number): BuildCacheEntry => ({ key, size, lastUsed, label: key })
+
+test("evicts nothing within the quota", () => {
+    const entries = [entry("a", 10, 1), entry("b", 20, 2)]
+    expect(selectEvictions(entries, 30)).toEqual([])
+})
+
+test("evicts the least recently used first", () => {
+    const entries = [entry("new", 10, 3), entry("old", 10, 1), entry("middle", 10, 2)]
+    expect(selectEvictions(entries, 20)).toEqual(["old"])
+    expect(selectEvictions(entries, 10)).toEqual(["old", "middle"])
+})
+
+test("evicts entries of unknown age first", () => {
+    const entries = [entry("known", 10, 5), entry("unknown", 10, 0)]
+    expect(selectEvictions(entries, 15)).toEqual(["unknown"])
+})
+
+test("never evicts kept entries", () => {
+    const entries = [entry("just-downloaded", 50, 0), entry("other", 10, 1)]
+    expect(selectEvictions(entries, 20, ["just-downloaded"])).toEqual(["other"])
+})
+
+test("counts install snapshots in the quota", () => {
+    const entries = [{ ...entry("new", 10, 2), snapshotSize: 10 }, { ...entry("old", 10, 1), snapshotSize: 10 }]
+    expect(selectEvictions(entries, 30)).toEqual(["old"])
+    expect(selectEvictions(entries, 40)).toEqual([])
+})
@@ -0,0 +1,238 @@
+import { openDatabase, requestToPromise } from "./idb"
+import { formatSize } from "./format"
+import { InstallSnapshotStore } from "./install-snapshot"
+
+/**
+ * Bookkeeping for a Ruby build in the download cache
+ */
+export type BuildCacheEntry = {
+    /// The URL of the request the build is cached under
+    key: string,
+    /// Size of the cached archive in bytes
+    size: number,
+    /// Size of the install snapshot extracted from the archive in bytes, if there is one.
+    /// Filled in by BuildCache.list rather than stored.
+    snapshotSize?: number,
+    /// When the build was last loaded, in milliseconds since the epoch. 0 if unknown.
+    lastUsed: number,
+    /// Human-readable name, e.g. "PR #123"
+    label: string,
+    /// The GitHub Actions run that produced the build, if any
+    runURL?: string,
+    /// The ID of that run and the repository it belongs to, e.g. "ruby/ruby"
+    run?: { id: string, repo: string },
+    /// First line of the message of the commit the build was made from, if known
+    commitMessage?: string,
+}
+
+/// What the user is shown about a cached build
+export type BuildMetadata = Pick<BuildCacheEntry, "label" | "runURL" | "run" | "commitMessage">
+
+/**
+ * Picks the least-recently-used entries to remove so that the total size fits in the quota.
+ * Entries whose key is in `keep` are never picked.
+ * @returns The keys of the entries to remove
+ */
+export function selectEvictions(entries: BuildCacheEntry[], quota: number, keep: string[] = []): string[] {
+    const sizeOf = (entry: BuildCacheEntry) => entry.size + (entry.snapshotSize ?? 0)
+    let total = entries.reduce((sum, entry) => sum + sizeOf(entry), 0)
+    const candidates = entries
+        .filter((entry) => !keep.includes(entry.key))
+        .sort((a, b) => a.lastUsed - b.lastUsed)
+    const evicted: string[] = []
+    for (const entry of candidates) {
+        if (total <= quota) {
+            break
+        }
+        evicted.push(entry.key)
+        total -= sizeOf(entry)
+    }
+    return evicted
+}
+
+const QUOTA_KEY = "BUILD_CACHE_QUOTA"
+const DEFAULT_QUOTA = 1024 * 1024 * 1024
+
+/// The maximum total size of cached builds in bytes
+export function buildCacheQuota(): number {
+    const quota = Number(localStorage.getItem(QUOTA_KEY))
+    return quota > 0 ? quota : DEFAULT_QUOTA
+}
+
+export function setBuildCacheQuota(quota: number) {
+    localStorage.setItem(QUOTA_KEY, String(quota))
+}
+
+/**
+ * Downloaded Ruby builds in Cache Storage, with their size and last use tracked in IndexedDB
+ * so that the least-recently-used ones can be evicted once they exceed the quota
+ */
+export class BuildCache {
+    private static storeName = "entries"
+
+    private constructor(private cache: Cache, private db: IDBDatabase, private snapshots: InstallSnapshotStore) { }
+
+    static async open(): Promise<BuildCache> {
+        const cache = await caches.open("ruby-wasm-install-v1")
+        const db = await openDatabase("play-ruby-build-cache", 1, (db) => {
+            db.createObjectStore(BuildCache.storeName, { keyPath: "key" })
+        })
+        return new BuildCache(cache, db, await InstallSnapshotStore.open())
+    }
+
+    private objectStore(mode: IDBTransactionMode) {
+        return this.db.transaction(BuildCache.storeName, mode).objectStore(BuildCache.storeName)
+    }
+
+    /// Cache Storage resolves relative keys against the page, so do the same for the bookkeeping
+    static normalizeKey(key: string) {
+        return new Request(key).url
+    }
+
+    /**
+     * Returns the cached build and marks it as used
+     */
+    async match(key: string): Promise<Response | undefined> {
+        const response = await this.cache.match(key)
+        if (response != null) {
+            const entry: BuildCacheEntry | undefined = await requestToPromise(this.objectStore("readonly").get(BuildCache.normalizeKey(key)))
+            if (entry != null) {
+                await requestToPromise(this.objectStore("readwrite").put({ ...entry, lastUsed: Date.now() }))
+            }
+        }
+        return response
+    }
+
+    /**
+     * Stores a downloaded build, then evicts old builds if the cache has grown past the quota
+     */
+    async put(key: string, response: Response, metadata: BuildMetadata) {
+        // Count the bytes on their way into the cache rather than reading the build back
+        let size = 0
+        const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                size += chunk.byteLength
+                controller.enqueue(chunk)
+            },
+        }))
+        await this.cache.put(key, new Response(body, response))
+        const entry: BuildCacheEntry = { key: BuildCache.normalizeKey(key), size, lastUsed: Date.now(), ...metadata }
+        await requestToPromise(this.objectStore("readwrite").put(entry))
+        await this.evict([entry.key])
+    }
+
+    /**
+     * Lists cached builds, most recently used first.
+     * Builds cached before their size was tracked are measured here, once.
+     */
+    async list(): Promise<BuildCacheEntry[]> {
+        const known: BuildCacheEntry[] = await requestToPromise(this.objectStore("readonly").getAll())
+        const snapshotSizes = await this.snapshots.sizes()
+        const entries: BuildCacheEntry[] = []
+        for (const request of await this.cache.keys()) {
+            let entry = known.find((entry) => entry.key === request.url)
+            if (entry == null) {
+                const response = await this.cache.match(request)
+                const size = Number(response.headers.get("Content-Length")) || (await response.blob()).size
+                entry = { key: request.url, size, lastUsed: 0, label: new URL(request.url).pathname.split("/").pop() }
+                await requestToPromise(this.objectStore("readwrite").put(entry))
+            }
+            entries.push({ ...entry, snapshotSize: snapshotSizes.get(entry.key) })
+        }
+        return entries.sort((a, b) => b.lastUsed - a.lastUsed)
+    }
+
+    /// Removes a build along with the install snapshot made from it
+    async delete(key: string) {
+        await this.cache.delete(key)
+        await requestToPromise(this.objectStore("readwrite").delete(BuildCache.normalizeKey(key)))
+        await this.snapshots.delete(BuildCache.normalizeKey(key))
+    }
+
+    /**
+     * Removes least-recently-used builds, with their install snapshots, until both fit in the quota
+     * @param keep Keys of builds that must stay, e.g. the one just downloaded
+     */
+    async evict(keep: string[] = []) {
+        const builds = await this.list()
+        // Snapshots whose build has gone only help if the same build is downloaded again, so they go first
+        const orphans: BuildCacheEntry[] = []
+        for (const [key, snapshotSize] of await this.snapshots.sizes()) {
+            if (!builds.some((build) => build.key === key)) {
+                orphans.push({ key, size: 0, snapshotSize, lastUsed: 0, label: key })
+            }
+        }
+        for (const key of selectEvictions([...orphans, ...builds], buildCacheQuota(), keep)) {
+            await this.delete(key)
+        }
+    }
+}
+
+/**
+ * Shows the cached builds with delete buttons, and the quota, in the config modal
+ */
+export class BuildCachePanel {
+    private list: HTMLUListElement
+    private usage: HTMLElement
+
+    constructor(container: HTMLElement, private cache: BuildCache) {
+        const section = document.createElement("section")
+        section.id = "config-build-cache"
+        const heading = document.createElement("h2")
+        heading.innerText = "Cached Ruby Builds"
+        const quotaLabel = document.createElement("label")
+        quotaLabel.innerText = "Keep at most (MiB): "
+        const quotaInput = document.createElement("input")
+        quotaInput.type = "number"
+        quotaInput.min = "1"
+        quotaInput.classList.add("plrb-modal-config-input")
+        quotaInput.value = String(Math.round(buildCacheQuota() / 1024 / 1024))
+        quotaInput.addEventListener("change", async () => {
+            const megabytes = Number(quotaInput.value)
+            if (!(megabytes > 0)) {
+                return
+            }
+            setBuildCacheQuota(megabytes * 1024 * 1024)
+            await this.cache.evict()
+            await this.reload()
+        })
+        quotaLabel.appendChild(quotaInput)
+        this.usage = document.createElement("p")
+        this.list = document.createElement("ul")
+        this.list.classList.add("plrb-build-cache-list")
+        section.append(heading, quotaLabel, this.usage, this.list)
+        container.appendChild(section)
+    }
+
+    async reload() {
+        const entries = await this.cache.list()
+        const total = entries.reduce((sum, entry) => sum + entry.size + (entry.snapshotSize ?? 0), 0)
+        this.usage.innerText = `${entries.length} builds, ${formatSize(total)} of ${formatSize(buildCacheQuota())}`
+        this.list.innerHTML = ""
+        for (const entry of entries) {
+            const item = document.createElement("li")
+            let name: HTMLElement
+            if (entry.runURL != null) {
+                name = document.createElement("a")
+                name.setAttribute("href", entry.runURL)
+                name.setAttribute("target", "_blank")
+            } else {
+                name = document.createElement("span")
+            }
+            name.innerText = entry.label
+            const details = document.createElement("span")
+            const lastUsed = entry.lastUsed > 0 ? new Date(entry.lastUsed).toLocaleString() : "unknown"
+            const snapshot = entry.snapshotSize != null ? ` + ${formatSize(entry.snapshotSize)} extracted` : ""
+            details.innerText = ` ${entry.commitMessage ?? ""} (${formatSize(entry.size)}${snapshot}, last used ${lastUsed}) `
+            const remove = document.createElement("button")
+            remove.type = "button"
+            remove.innerText = "Delete"
+            remove.addEventListener("click", async () => {
+                await this.cache.delete(entry.key)
+                await this.reload()
+            })
+            item.append(name, details, remove)
+            this.list.appendChild(item)
+        }
+    }
+}
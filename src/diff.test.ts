@@ -0,0 +1,58 @@
+import { DiffEdit, diffSequences } from "./diff"
+import { expect, test } from "vitest"
+
+/// Renders edits like a unified diff for readable assertions
+function render(a: string[], b: string[], edits: DiffEdit[]): string[] {
+    return edits.map((edit) => {
+        switch (edit.type) {
+            case "equal": return ` ${a[edit.oldIndex]}`
+            case "delete": return `-${a[edit.oldIndex]}`
+            case "insert": return `+${b[edit.newIndex]}`
+        }
+    })
+}
+
+test("identical", () => {
+    const a = ["a", "b", "c"]
+    expect(render(a, a, diffSequences(a, a))).toEqual([" a", " b", " c"])
+})
+
+test("empty", () => {
+    expect(diffSequences([], [])).toEqual([])
+    expect(render([], ["a"], diffSequences([], ["a"]))).toEqual(["+a"])
+    expect(render(["a"], [], diffSequences(["a"], []))).toEqual(["-a"])
+})
+
+test("changed line in the middle", () => {
+    const a = ["a", "b", "c"]
+    const b = ["a", "x", "c"]
+    expect(render(a, b, diffSequences(a, b))).toEqual([" a", "-b", "+x", " c"])
+})
+
+test("shortest edit script", () => {
+    const a = "ABCABBA".split("")
+    const b = "CBABAC".split("")
+    const edits = diffSequences(a, b)
+    expect(edits.filter((edit) => edit.type !== "equal").length).toEqual(5)
+    // Applying the edits to `a` gives `b`
+    const result = edits.filter((edit) => edit.type !== "delete").map((edit) => edit.type === "equal" ? a[edit.oldIndex] : b[edit.newIndex])
+    expect(result).toEqual(b)
+})
+
+test("custom equality", () => {
+    const a = [{ id: 1 }, { id: 2 }]
+    const b = [{ id: 1 }, { id: 3 }]
+    const edits = diffSequences(a, b, (x, y) => x.id === y.id)
+    expect(edits.map((edit) => edit.type)).toEqual(["equal", "delete", "insert"])
+})
+
+test("long inputs that differ everywhere", () => {
+    const a = Array.from({ length: 10000 }, (_, i) => `a${i}`)
+    const b = Array.from({ length: 10000 }, (_, i) => i % 100 === 0 ? `a${i}` : `b${i}`)
+    const edits = diffSequences(a, b)
+    // Not necessarily the shortest, but still turns `a` into `b`
+    const result = edits.filter((edit) => edit.type !== "delete").map((edit) => edit.type === "equal" ? a[edit.oldIndex] : b[edit.newIndex])
+    expect(result).toEqual(b)
+    const original = edits.filter((edit) => edit.type !== "insert").map((edit) => edit.type === "equal" ? b[edit.newIndex] : a[edit.oldIndex])
+    expect(original).toEqual(a)
+})
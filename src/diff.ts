@@ -0,0 +1,119 @@
+export type DiffEdit =
+    | { type: "equal", oldIndex: number, newIndex: number }
+    | { type: "delete", oldIndex: number }
+    | { type: "insert", newIndex: number }
+
+/// How far the search for the middle snake goes before settling for the furthest point reached
+const MAX_EXACT_COST = 256
+
+/// Computes a shortest edit script turning `a` into `b` with the linear-space variant of Myers' O(ND)
+/// algorithm, which splits the problem at the middle snake of an optimal path instead of keeping the
+/// whole search around, so that long outputs that differ everywhere still fit in memory.
+/// Past MAX_EXACT_COST edits within a part of the input, the script is no longer guaranteed
+/// to be the shortest, which keeps the running time near-linear for such outputs too.
+/// See "An O(ND) Difference Algorithm and Its Variations" by Eugene W. Myers.
+function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffEdit[] {
+    const edits: DiffEdit[] = []
+    const eq = (x: number, y: number) => equals(a[x], b[y])
+
+    /// Appends the edits turning a[aLo, aHi) into b[bLo, bHi)
+    const compare = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+        // Strip the common prefix and suffix, which are usually most of the input
+        while (aLo < aHi && bLo < bHi && eq(aLo, bLo)) {
+            edits.push({ type: "equal", oldIndex: aLo++, newIndex: bLo++ })
+        }
+        let suffix = 0
+        while (aLo < aHi - suffix && bLo < bHi - suffix && eq(aHi - 1 - suffix, bHi - 1 - suffix)) {
+            suffix++
+        }
+        aHi -= suffix
+        bHi -= suffix
+
+        if (aLo === aHi) {
+            for (let y = bLo; y < bHi; y++) {
+                edits.push({ type: "insert", newIndex: y })
+            }
+        } else if (bLo === bHi) {
+            for (let x = aLo; x < aHi; x++) {
+                edits.push({ type: "delete", oldIndex: x })
+            }
+        } else {
+            // Both ends differ, so the edit distance is at least 2 and both halves are smaller problems
+            const snake = middleSnake(aLo, aHi, bLo, bHi)
+            compare(aLo, snake.startX, bLo, snake.startY)
+            for (let x = snake.startX, y = snake.startY; x < snake.endX; x++, y++) {
+                edits.push({ type: "equal", oldIndex: x, newIndex: y })
+            }
+            compare(snake.endX, aHi, snake.endY, bHi)
+        }
+
+        for (let i = 0; i < suffix; i++) {
+            edits.push({ type: "equal", oldIndex: aHi + i, newIndex: bHi + i })
+        }
+    }
+
+    /// Finds the snake in the middle of a shortest edit path by searching from both ends at once
+    const middleSnake = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+        const n = aHi - aLo
+        const m = bHi - bLo
+        const delta = n - m
+        const odd = (delta & 1) !== 0
+        const offset = n + m + 1
+        // The furthest reaching x on each diagonal k, from the start and from the end respectively
+        const forward = new Int32Array(2 * (n + m) + 3)
+        const backward = new Int32Array(2 * (n + m) + 3)
+        for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+            for (let k = -d; k <= d; k += 2) {
+                let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]))
+                    ? forward[offset + k + 1]
+                    : forward[offset + k - 1] + 1
+                let y = x - k
+                const [startX, startY] = [x, y]
+                while (x < n && y < m && eq(aLo + x, bLo + y)) {
+                    x++
+                    y++
+                }
+                forward[offset + k] = x
+                const c = delta - k
+                if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+                    return { startX: aLo + startX, startY: bLo + startY, endX: aLo + x, endY: bLo + y }
+                }
+            }
+            for (let k = -d; k <= d; k += 2) {
+                let x = (k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]))
+                    ? backward[offset + k + 1]
+                    : backward[offset + k - 1] + 1
+                let y = x - k
+                const [startX, startY] = [x, y]
+                while (x < n && y < m && eq(aHi - 1 - x, bHi - 1 - y)) {
+                    x++
+                    y++
+                }
+                backward[offset + k] = x
+                const c = delta - k
+                if (!odd && c >= -d && c <= d && x + forward[offset + c] >= n) {
+                    // Distances from the end, so the snake runs from (n - x, m - y) to (n - startX, m - startY)
+                    return { startX: aHi - x, startY: bHi - y, endX: aHi - startX, endY: bHi - startY }
+                }
+            }
+            if (d >= MAX_EXACT_COST) {
+                // Too expensive: split at the furthest point reached from the start instead,
+                // which is on some edit path (not necessarily the shortest) and past the start
+                let [bestX, bestY] = [0, 0]
+                for (let k = -d; k <= d; k += 2) {
+                    const [x, y] = [forward[offset + k], forward[offset + k] - k]
+                    if (x <= n && y >= 0 && y <= m && x + y > bestX + bestY) {
+                        [bestX, bestY] = [x, y]
+                    }
+                }
+                return { startX: aLo + bestX, startY: bLo + bestY, endX: aLo + bestX, endY: bLo + bestY }
+            }
+        }
+        throw new Error("unreachable: the searches always meet")
+    }
+
+    compare(0, a.length, 0, b.length)
+    return edits
+}
+
+export { diffSequences }
@@ -0,0 +1,55 @@
+import { parseDisassembly } from "./disasm"
+import { expect, test } from "vitest"
+
+const dump = `== disasm: #<ISeq:<main>@main.rb:1 (1,0)-(3,6)>
+0000 definemethod                           :hello, hello             (   1)[Li]
+0003 putself                                                          (   2)[Li]
+0004 opt_send_without_block                 <calldata!mid:hello, argc:0, FCALL|VCALL|ARGS_SIMPLE>
+0006 leave
+
+== disasm: #<ISeq:hello@main.rb:1 (1,0)-(1,26)>
+local table (size: 1, argc: 0 [opts: 0, rest: -1, post: 0, block: -1, kw: -1@-1, kwrest: -1])
+[ 1] x@0
+0000 putself                                                          (   1)[LiCa]
+0001 putobject                              "Hello"
+0003 opt_send_without_block                 <calldata!mid:puts, argc:1, FCALL|ARGS_SIMPLE>
+0005 leave                                                            (   1)[Re]
+
+== disasm: #<ISeq:block in <main>@main.rb:3 (3,5)-(3,6)>
+== catch table
+| catch type: redo   st: 0000 ed: 0001 sp: 0000 cont: 0000
+|------------------------------------------------------------------------
+0000 putnil                                                           (   3)[Bc]
+0001 leave                                                            (   3)[Br]
+`
+
+test("iseqs", () => {
+    const iseqs = parseDisassembly(dump)
+    expect(iseqs.map(({ name, kind, path }) => [name, kind, path])).toEqual([
+        ["<main>", "top", "main.rb"],
+        ["hello", "method", "main.rb"],
+        ["block in <main>", "block", "main.rb"],
+    ])
+    expect(iseqs[1].location).toEqual({ startLine: 1, startColumn: 0, endLine: 1, endColumn: 26 })
+})
+
+test("instructions carry over line numbers", () => {
+    const [main] = parseDisassembly(dump)
+    const instructions = main.lines.flatMap((line) => line.type === "instruction" ? [line.instruction] : [])
+    expect(instructions.map(({ offset, name, line, events }) => [offset, name, line, events])).toEqual([
+        [0, "definemethod", 1, "Li"],
+        [3, "putself", 2, "Li"],
+        [4, "opt_send_without_block", 2, null],
+        [6, "leave", 2, null],
+    ])
+    expect(instructions[2].operands).toEqual("<calldata!mid:hello, argc:0, FCALL|VCALL|ARGS_SIMPLE>")
+})
+
+test("local and catch tables are kept as text", () => {
+    const [_, hello, block] = parseDisassembly(dump)
+    expect(hello.lines.slice(0, 2)).toEqual([
+        { type: "text", text: "local table (size: 1, argc: 0 [opts: 0, rest: -1, post: 0, block: -1, kw: -1@-1, kwrest: -1])" },
+        { type: "text", text: "[ 1] x@0" },
+    ])
+    expect(block.lines.filter((line) => line.type === "text")).toHaveLength(3)
+})
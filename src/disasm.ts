@@ -0,0 +1,96 @@
+import type { SourceRange } from "./syntax-tree"
+
+/**
+ * An instruction in the output of `--dump=insns`
+ */
+type Instruction = {
+    /// The position in the iseq, e.g. 3 for "0003 putself"
+    offset: number,
+    name: string,
+    operands: string,
+    /// The source line the instruction was compiled from, carried over from the previous
+    /// instruction if the dump does not repeat it. 1-indexed.
+    line: number | null,
+    /// Events fired at the instruction, e.g. "Li" for "[Li]"
+    events: string | null,
+    /// The line as printed
+    text: string,
+}
+
+type InstructionSequenceKind = "top" | "method" | "block" | "class" | "module" | "rescue" | "ensure" | "other"
+
+/**
+ * An iseq in the output of `--dump=insns`, e.g. a method or a block
+ */
+type InstructionSequence = {
+    /// e.g. "<main>", "hello" or "block in <main>"
+    name: string,
+    kind: InstructionSequenceKind,
+    path: string,
+    location: SourceRange | null,
+    /// The "== disasm: ..." line
+    header: string,
+    /// The local table, catch table and instructions as printed, in order
+    lines: ({ type: "text", text: string } | { type: "instruction", instruction: Instruction })[],
+}
+
+/// "== disasm: #<ISeq:hello@main.rb:1 (1,0)-(1,26)>"
+const iseqHeaderPattern = /^== disasm: #<ISeq:(.*)@(.+?):\d+ \((\d+),(\d+)\)-\((\d+),(\d+)\)>/
+/// "0003 opt_send_without_block <calldata!mid:puts, argc:1, FCALL|ARGS_SIMPLE>     (   2)[Li]"
+const instructionPattern = /^(\d{4,}) (\S+)(.*?)(?:\(\s*(\d+)\)(?:\[(\w+)\])?)?\s*$/
+
+function iseqKind(name: string): InstructionSequenceKind {
+    if (name === "<main>" || name === "<top (required)>" || name === "<compiled>") return "top"
+    if (name.startsWith("<class:")) return "class"
+    if (name.startsWith("<module:")) return "module"
+    if (name.startsWith("block ")) return "block"
+    if (name.startsWith("rescue in ")) return "rescue"
+    if (name.startsWith("ensure in ")) return "ensure"
+    if (name.startsWith("<")) return "other"
+    return "method"
+}
+
+/// Parses the output of `--dump=insns` into its iseqs. Text before the first iseq is ignored.
+function parseDisassembly(dump: string): InstructionSequence[] {
+    const iseqs: InstructionSequence[] = []
+    let current: InstructionSequence | null = null
+    let line: number | null = null
+    for (const text of dump.split("\n")) {
+        let match: RegExpMatchArray | null
+        if ((match = text.match(iseqHeaderPattern)) != null) {
+            const [_, name, path, startLine, startColumn, endLine, endColumn] = match
+            current = {
+                name,
+                kind: iseqKind(name),
+                path,
+                location: {
+                    startLine: Number(startLine),
+                    startColumn: Number(startColumn),
+                    endLine: Number(endLine),
+                    endColumn: Number(endColumn),
+                },
+                header: text,
+                lines: [],
+            }
+            iseqs.push(current)
+            line = null
+        } else if (current == null) {
+            continue
+        } else if ((match = text.match(instructionPattern)) != null) {
+            const [_, offset, name, operands, lineNumber, events] = match
+            if (lineNumber != null) {
+                line = Number(lineNumber)
+            }
+            current.lines.push({
+                type: "instruction",
+                instruction: { offset: Number(offset), name, operands: operands.trim(), line, events: events ?? null, text },
+            })
+        } else if (text !== "") {
+            current.lines.push({ type: "text", text })
+        }
+    }
+    return iseqs
+}
+
+export { parseDisassembly }
+export type { Instruction, InstructionSequence, InstructionSequenceKind }
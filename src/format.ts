@@ -0,0 +1,8 @@
+/// Human-readable sizes shared by the page and the worker
+
+/// e.g. "512 B", "1.5 KiB" or "12.3 MiB"
+export function formatSize(size: number) {
+    if (size < 1024) return `${size} B`
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KiB`
+    return `${(size / 1024 / 1024).toFixed(1)} MiB`
+}
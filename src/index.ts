@@ -1,13 +1,31 @@
 import * as monaco from "monaco-editor"
 import * as Comlink from "comlink"
-import type { RubyWorker } from "./ruby.worker"
-import { splitFile } from "./split-file"
+import type { OutputStream, RubyWorker, RunResult } from "./ruby.worker"
+import { splitFile, type FileEntry } from "./split-file"
+import { findPathReferences, parseRubyDiagnostics } from "./ruby-diagnostics"
+import { parseDisassembly } from "./disasm"
+import { installStyles } from "./styles"
+import { SYNTAX_DIFF_SEPARATOR, diffSyntaxTrees, findNodePathAt, parseSyntaxTree, type NodeTypeMappings, type SyntaxDiffEntry, type SyntaxTreeNode } from "./syntax-tree"
+import { OutputFilesPanel } from "./output-files"
+import { UploadedFilesPanel } from "./uploaded-files"
+import { compressToString, decompressFromString } from "./permalink"
+import { diffSequences } from "./diff"
+import { findFirstChange } from "./bisect"
+import { BuildCache, BuildCachePanel, type BuildMetadata } from "./build-cache"
 
 type PlayRubyConfig = {
     SERVER_URL: string,
     ENABLE_GITHUB_INTEGRATION: boolean,
 }
 
+/// The repository whose GitHub Actions builds are used unless `?repo=` is given
+const DEFAULT_GITHUB_REPO = "ruby/ruby"
+/// The script that gets the part of the Code tab before the first `#---` line
+const MAIN_FILE = "main.rb"
+/// How many commits on a branch are searched for a build, each costing an API request.
+/// The service caps `/branch_runs` at the same number.
+const MAX_BRANCH_COMMITS = 100
+
 class GitHubAPIError extends Error {
     constructor(context: string, public response: Response) {
         super(`GitHub API error (${context}): ${response.status} ${response.statusText}`)
@@ -19,6 +37,11 @@ class GitHubAPIError extends Error {
 }
 interface ArtifactDownloader {
     getDownloadInfo(source: string, payload: string): Promise<{ run: any, artifact: any }>;
+    /**
+     * Lists the successful wasm.yml runs for the latest commits on a branch, newest first
+     * @param maxCommits The number of commits to look at
+     */
+    getBranchRuns(branch: string, maxCommits: number): Promise<any[]>;
     downloadArtifact(url: string): Promise<Response>;
 }
 
@@ -56,11 +79,14 @@ class TokenBasedArtifactDownloader implements ArtifactDownloader {
         throw new Error(`No run for ${workflowPath} in PR ${prNumber}`)
     }
 
-    async getBranchLatestRunId(branch: string, workflowPath: string) {
+    /**
+     * Yields each commit on the branch, newest first, with its successful run of the given workflow if any
+     */
+    async *branchCommitRuns(branch: string, workflowPath: string): AsyncGenerator<{ commit: any, run: any | null }> {
         async function* commits() {
             let page = 1
             while (true) {
-                const commitsUrl = `https://api.github.com/repos/${this.repo}/commits?sha=${branch}&page=${page}`
+                const commitsUrl = `https://api.github.com/repos/${this.repo}/commits?sha=${encodeURIComponent(branch)}&page=${page}`
                 const commits = await this.jsonRequest(commitsUrl, "Commits fetch")
                 for (const commit of commits) {
                     yield commit
@@ -73,24 +99,65 @@ class TokenBasedArtifactDownloader implements ArtifactDownloader {
         }
 
         for await (const commit of commits.call(this)) {
-            const runsUrl = `https://api.github.com/repos/${this.repo}/actions/runs?event=push&branch=${branch}&commit_sha=${commit["sha"]}&status=success&exclude_pull_requests=true`
+            const runsUrl = `https://api.github.com/repos/${this.repo}/actions/runs?event=push&branch=${encodeURIComponent(branch)}&commit_sha=${commit["sha"]}&status=success&exclude_pull_requests=true`
             let runs: any;
             try {
                 runs = await this.jsonRequest(runsUrl, "Runs fetch")
             } catch (error) {
                 if (error instanceof GitHubAPIError && error.response.status === 404) {
                     // No runs for this commit
+                    yield { commit, run: null }
                     continue
                 }
                 throw error
             }
 
-            for (const run of runs["workflow_runs"]) {
-                if (run["path"] === workflowPath) {
-                    return run["id"]
-                }
+            const run = runs["workflow_runs"].find((run: any) => run["path"] === workflowPath)
+            yield { commit, run: run ?? null }
+        }
+    }
+
+    async getBranchLatestRunId(branch: string, workflowPath: string) {
+        let seenCommits = 0
+        for await (const { run } of this.branchCommitRuns(branch, workflowPath)) {
+            if (run != null) {
+                return run["id"]
+            }
+            if (++seenCommits >= MAX_BRANCH_COMMITS) {
+                break
+            }
+        }
+        throw new Error(`No successful run for ${workflowPath} in the latest ${MAX_BRANCH_COMMITS} commits on ${branch}`)
+    }
+
+    async getCommitRunId(ref: string, workflowPath: string) {
+        // Resolve abbreviated SHAs since the runs API only accepts full ones
+        const commitUrl = `https://api.github.com/repos/${this.repo}/commits/${ref}`
+        const commit = await this.jsonRequest(commitUrl, "Commit fetch")
+
+        const runsUrl = `https://api.github.com/repos/${this.repo}/actions/runs?head_sha=${commit["sha"]}&status=success`
+        const runs = await this.jsonRequest(runsUrl, "Runs fetch")
+
+        for (const run of runs["workflow_runs"]) {
+            if (run["path"] === workflowPath) {
+                return run["id"]
+            }
+        }
+        throw new Error(`No successful run for ${workflowPath} at ${ref}`)
+    }
+
+    async getBranchRuns(branch: string, maxCommits: number): Promise<any[]> {
+        const runs = []
+        let seenCommits = 0
+        for await (const { run } of this.branchCommitRuns(branch, ".github/workflows/wasm.yml")) {
+            if (run != null) {
+                runs.push(run)
+            }
+            if (++seenCommits >= maxCommits) {
+                break
             }
         }
+        return runs
     }
 
     /**
@@ -124,6 +191,14 @@ class TokenBasedArtifactDownloader implements ArtifactDownloader {
                 payload = await this.getBranchLatestRunId("master", workflowPath)
             }
             return await this.getMetadata(payload, artifactName)
+        case "branch": {
+            const runId = await this.getBranchLatestRunId(payload, workflowPath)
+            return await this.getMetadata(runId, artifactName)
+        }
+        case "commit": {
+            const runId = await this.getCommitRunId(payload, workflowPath)
+            return await this.getMetadata(runId, artifactName)
+        }
         default:
             throw new Error(`Unknown source: ${source} with payload: ${payload}`)
         }
@@ -135,7 +210,7 @@ class TokenBasedArtifactDownloader implements ArtifactDownloader {
 }
 
 class PlayRubyService implements ArtifactDownloader {
-    constructor(public endpoint: string) { }
+    constructor(public endpoint: string, private repo: string = DEFAULT_GITHUB_REPO) { }
 
     private fetch(url: string, options: RequestInit) {
         return fetch(url, { ...options, credentials: "include" })
@@ -143,13 +218,14 @@ class PlayRubyService implements ArtifactDownloader {
 
     /**
      * Fetches the metadata for a GitHub Actions run and returns the metadata for the given artifact
-     * @param source The source of the artifact (e.g. "run", "pr")
-     * @param payload The payload for the source (e.g. run ID, PR number)
+     * @param source The source of the artifact (e.g. "run", "pr", "branch", "commit")
+     * @param payload The payload for the source (e.g. run ID, PR number, branch name, commit SHA)
      * @returns The metadata for the artifact in the given run
      */
     async getDownloadInfo(source: string, payload: string): Promise<{ run: any, artifact: any }> {
         const url = new URL(this.endpoint)
         url.pathname = "/download_info"
+        url.searchParams.set("repo", this.repo)
         url.searchParams.set("source", source)
         url.searchParams.set("payload", payload)
         const response = await this.fetch(url.toString(), {})
@@ -159,6 +235,19 @@ class PlayRubyService implements ArtifactDownloader {
         return await response.json()
     }
 
+    async getBranchRuns(branch: string, maxCommits: number): Promise<any[]> {
+        const url = new URL(this.endpoint)
+        url.pathname = "/branch_runs"
+        url.searchParams.set("repo", this.repo)
+        url.searchParams.set("branch", branch)
+        url.searchParams.set("limit", String(maxCommits))
+        const response = await this.fetch(url.toString(), {})
+        if (!response.ok) {
+            throw new GitHubAPIError("Branch runs", response)
+        }
+        return await response.json()
+    }
+
     signInLink(origin: string) {
         const url = new URL(this.endpoint)
         url.pathname = "/sign_in"
@@ -181,17 +270,21 @@ class PlayRubyService implements ArtifactDownloader {
  * Provides access to GitHub Actions artifacts
  */
 class GitHubArtifactRegistry {
-    constructor(private cache: Cache, private downloader: ArtifactDownloader) { }
+    /// `cache` is null to always download
+    constructor(private cache: BuildCache | null, private downloader: ArtifactDownloader) { }
 
     /**
      * Returns the artifact at the given URL, either from the cache or by downloading it
+     * @param metadata Describes the artifact in the list of cached builds
      */
-    async get(artifactUrl: string, cacheKey: string) {
-        let response = await this.cache.match(cacheKey)
+    async get(artifactUrl: string, cacheKey: string, metadata: BuildMetadata) {
+        let response = await this.cache?.match(cacheKey)
         if (response == null || !response.ok) {
             response = await this.downloader.downloadArtifact(artifactUrl)
             if (response.ok) {
-                this.cache.put(cacheKey, response.clone())
+                this.cache?.put(cacheKey, response.clone(), metadata).catch((error) => {
+                    console.warn(`Failed to cache ${artifactUrl}`, error)
+                })
             } else {
                 throw new GitHubAPIError("Artifact download", response)
             }
@@ -221,18 +314,52 @@ function teeDownloadProgress(response: Response, setProgress: (bytes: number, re
 }
 
 
-async function initRubyWorkerClass(rubySource: RubySource, service: ArtifactDownloader, setStatus: (status: string) => void, setMetadata: (run: any) => void) {
+/// Returns null if the browser does not let the page use Cache Storage or IndexedDB (e.g. in some
+/// private windows), in which case builds are downloaded every time
+async function openBuildCache(): Promise<BuildCache | null> {
+    try {
+        return await BuildCache.open()
+    } catch (error) {
+        console.warn("Ruby builds will not be cached", error)
+        return null
+    }
+}
+
+/**
+ * A Ruby worker running in its own Web Worker thread
+ */
+type RubyWorkerInstance = {
+    rubyWorker: RubyWorker,
+    /// Forcibly stops the worker thread, even if it is in the middle of a run
+    terminate(): void,
+}
+
+/// Builds loaded with `useCache` false are neither read from nor kept in the build cache,
+/// e.g. the many one-off builds of a bisection
+async function initRubyWorkerClass(
+    rubySource: RubySource, service: ArtifactDownloader, setStatus: (status: string) => void, setMetadata: (run: any) => void,
+    useCache: boolean = true
+) {
     setStatus("Installing Ruby...")
-    const artifactRegistry = new GitHubArtifactRegistry(await caches.open("ruby-wasm-install-v1"), service)
-    const RubyWorkerClass = Comlink.wrap(new Worker("build/src/ruby.worker.js", { type: "module" })) as unknown as {
-        create(zipBuffer: ArrayBuffer, stripComponents: number, setStatus: (message: string) => void): Promise<RubyWorker>
+    const artifactRegistry = new GitHubArtifactRegistry(useCache ? await openBuildCache() : null, service)
+    const initFromArchiveBuffer = (archiveBuffer: ArrayBuffer, stripComponents: number | "auto", snapshotKey: string | null = null) => {
+        // Keep the downloaded archive around so that a fresh worker can be created
+        // without downloading it again (e.g. after interrupting a runaway program)
+        return async (): Promise<RubyWorkerInstance> => {
+            const worker = new Worker("build/src/ruby.worker.js", { type: "module" })
+            const RubyWorkerClass = Comlink.wrap(worker) as unknown as {
+                create(archiveBuffer: ArrayBuffer, stripComponents: number | "auto", setStatus: (message: string) => void, snapshotKey: string | null): Promise<RubyWorker>
+            }
+            const rubyWorker = await RubyWorkerClass.create(archiveBuffer, stripComponents, Comlink.proxy(setStatus), snapshotKey)
+            return { rubyWorker, terminate: () => worker.terminate() }
+        }
     }
     const initFromZipTarball = async (
-        url: string, cacheKey: string, stripComponents: number,
+        url: string, cacheKey: string, metadata: BuildMetadata, stripComponents: number,
         setProgress: (bytes: number, response: Response) => void
     ) => {
         setStatus("Downloading Ruby...")
-        const zipSource = await artifactRegistry.get(url, cacheKey)
+        const zipSource = await artifactRegistry.get(url, cacheKey, metadata)
         if (zipSource.status !== 200) {
             throw new Error(`Failed to download ${url}: ${zipSource.status} ${await zipSource.text()}`)
         }
@@ -241,24 +368,42 @@ async function initRubyWorkerClass(rubySource: RubySource, service: ArtifactDown
             setProgress
         )
         const zipBuffer = await zipResponse.arrayBuffer();
-
-        return async () => {
-            return await RubyWorkerClass.create(zipBuffer, stripComponents, Comlink.proxy(setStatus))
-        }
+        // Artifacts never change under the same cache key, so the install extracted from them can be reused
+        return initFromArchiveBuffer(zipBuffer, stripComponents, useCache ? BuildCache.normalizeKey(cacheKey) : null)
     }
     const initFromGitHubActionsRun = async (run: any, artifact: any) => {
         setMetadata(run)
         const size = Number(artifact["size_in_bytes"]);
         // archive_download_url might be changed, so use runId as cache key
-        return await initFromZipTarball(artifact["archive_download_url"], run["id"], 0, (bytes, _) => {
+        const metadata: BuildMetadata = {
+            // Name the run rather than e.g. "master (latest)", which will point to another build tomorrow
+            label: rubySourceLabel(rubySource.type === "github-actions-run" ? { ...rubySource, runId: String(run["id"]) } : rubySource),
+            runURL: run["html_url"],
+            run: { id: String(run["id"]), repo: ("repo" in rubySource ? rubySource.repo : null) ?? DEFAULT_GITHUB_REPO },
+            commitMessage: run["head_commit"]?.["message"].split("\n")[0],
+        }
+        return await initFromZipTarball(artifact["archive_download_url"], String(run["id"]), metadata, 0, (bytes, _) => {
             const total = size
             const percent = Math.round(bytes / total * 100)
             setStatus(`Downloading Ruby... ${percent}%`)
         })
     }
+    const initFromURL = async (url: string) => {
+        setStatus("Downloading Ruby...")
+        // Local builds change often and may be served from anywhere, so bypass the artifact cache
+        const response = await fetch(url)
+        if (!response.ok) {
+            throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`)
+        }
+        const total = Number(response.headers.get("Content-Length"))
+        const archiveResponse = teeDownloadProgress(response, (bytes) => {
+            setStatus(total > 0 ? `Downloading Ruby... ${Math.round(bytes / total * 100)}%` : `Downloading Ruby... ${bytes} bytes`)
+        })
+        return initFromArchiveBuffer(await archiveResponse.arrayBuffer(), "auto")
+    }
     const initFromBuiltin = async (version: string) => {
         const url = `build/ruby-${version}.zip`
-        return await initFromZipTarball(url, url, 1, (bytes, response) => {
+        return await initFromZipTarball(url, url, { label: rubySourceLabel({ type: "builtin", version }) }, 1, (bytes, response) => {
             const total = Number(response.headers.get("Content-Length"))
             const percent = Math.round(bytes / total * 100)
             setStatus(`Downloading Ruby... ${percent}%`)
@@ -276,54 +421,403 @@ async function initRubyWorkerClass(rubySource: RubySource, service: ArtifactDown
             const { run, artifact } = await service.getDownloadInfo("pr", rubySource.prNumber)
             return initFromGitHubActionsRun(run, artifact)
         }
+        case "github-branch": {
+            const { run, artifact } = await service.getDownloadInfo("branch", rubySource.branch)
+            return initFromGitHubActionsRun(run, artifact)
+        }
+        case "github-commit": {
+            const { run, artifact } = await service.getDownloadInfo("commit", rubySource.commit)
+            return initFromGitHubActionsRun(run, artifact)
+        }
         case "builtin":
             return initFromBuiltin(rubySource.version)
+        case "url":
+            return initFromURL(rubySource.url)
+        case "file":
+            return initFromArchiveBuffer(await rubySource.file.arrayBuffer(), "auto")
         default:
             throw new Error(`Unknown Ruby source type: ${rubySource}`)
     }
 }
 
+/**
+ * Everything a worker needs to run the code in the editor
+ */
+type RunInput = {
+    codeMap: { [path: string]: string | Uint8Array },
+    mainFile: string,
+    stdin: string,
+    action: string,
+    options: Options,
+}
+
+/**
+ * Runs code on a Ruby worker, replacing the worker when a run has to be interrupted
+ */
+class RubyRunner {
+    // Set while a run is in progress. Calling it terminates the worker running the code.
+    private interruptCurrentRun: (() => void) | null = null
+
+    private constructor(
+        private makeRubyWorker: () => Promise<RubyWorkerInstance>,
+        private instance: Promise<RubyWorkerInstance>,
+        private reportError: (error: Error) => void,
+        // Cleared by dispose, after which interrupted runs leave no worker behind
+        private restartAfterInterrupt: boolean,
+    ) { }
+
+    /**
+     * Creates a runner once its first worker is ready, so that install and compile errors reach the caller
+     * @param reportError Called when a worker replacing an interrupted one fails to start
+     * @param options.restartAfterInterrupt False for runners that are disposed of after a single run,
+     *   which need no worker to replace an interrupted one
+     */
+    static async create(
+        makeRubyWorker: () => Promise<RubyWorkerInstance>, reportError: (error: Error) => void,
+        options: { restartAfterInterrupt?: boolean } = {}
+    ): Promise<RubyRunner> {
+        const instance = await makeRubyWorker()
+        return new RubyRunner(makeRubyWorker, Promise.resolve(instance), reportError, options.restartAfterInterrupt ?? true)
+    }
+
+    /// Stops the run in progress, if any
+    interrupt() {
+        this.interruptCurrentRun?.()
+    }
+
+    /// Stops the run in progress, if any, and terminates the worker. The runner must not be used afterwards.
+    async dispose() {
+        this.restartAfterInterrupt = false
+        this.interrupt()
+        const instance = await this.instance
+        instance.terminate()
+    }
+
+    /**
+     * Compiles the given files without running them, on the worker of the next run
+     * @returns What Ruby printed to stderr
+     */
+    async checkSyntax(codeMap: { [path: string]: string | Uint8Array }, paths: string[]): Promise<string> {
+        return await (await this.instance).rubyWorker.checkSyntax(codeMap, paths)
+    }
+
+    /**
+     * Runs the given code, interrupting it after `options.timeout` milliseconds
+     * @returns The result of the run and the worker that ran it, or null if the run was interrupted
+     */
+    async run(input: RunInput, log: (stream: OutputStream, message: string) => void): Promise<{ result: RunResult, rubyWorker: RubyWorker | null }> {
+        const { codeMap, mainFile, stdin, action, options } = input
+        const instance = await this.instance
+        const startTime = performance.now()
+        let interrupt: () => void
+        const interrupted = new Promise<"interrupted">((resolve) => {
+            interrupt = () => resolve("interrupted")
+        })
+        const timeoutId = options.timeout ? setTimeout(() => interrupt(), options.timeout) : null
+        this.interruptCurrentRun = interrupt
+        try {
+            const result = await Promise.race([
+                instance.rubyWorker.run(codeMap, mainFile, stdin, action, options, Comlink.proxy(log)),
+                interrupted,
+            ])
+            if (result === "interrupted") {
+                // The worker is stuck in `wasi.start`, so the only way out is to throw it away
+                instance.terminate()
+                const elapsed = performance.now() - startTime
+                log("stderr", `\nInterrupted after ${Math.round(elapsed)} ms\n`)
+                if (this.restartAfterInterrupt) {
+                    this.instance = this.makeRubyWorker()
+                    // Runs on this runner fail until then, with the same error
+                    this.instance.catch((error) => this.reportError(error))
+                }
+                return { result: { exitCode: null, duration: elapsed, killed: true, exception: null }, rubyWorker: null }
+            }
+            return { result, rubyWorker: instance.rubyWorker }
+        } finally {
+            clearTimeout(timeoutId)
+            if (this.interruptCurrentRun === interrupt) {
+                this.interruptCurrentRun = null
+            }
+        }
+    }
+}
+
+/// GitHub sources are resolved to a successful wasm.yml run in `repo` (ruby/ruby by default)
 type RubySource = {
     type: "github-actions-run",
     runId: string,
+    repo?: string,
 } | {
     type: "github-pull-request",
     prNumber: string,
+    repo?: string,
+} | {
+    type: "github-branch",
+    branch: string,
+    repo?: string,
+} | {
+    type: "github-commit",
+    commit: string,
+    repo?: string,
 } | {
     type: "builtin",
     version: string,
+} | {
+    /// A zip artifact or install.tar.gz at an arbitrary URL, e.g. a local build
+    type: "url",
+    url: string,
+} | {
+    /// A zip artifact or install.tar.gz picked by the user
+    type: "file",
+    file: File,
+}
+
+/// Ruby versions bundled with the site by bin/build.mjs
+const BUILTIN_RUBY_VERSIONS = ["3.2", "3.3", "3.4"]
+
+function rubySourceFromQueryParam(key: string, value: string, repo: string = DEFAULT_GITHUB_REPO): RubySource | null {
+    if (key === "run") {
+        return { type: "github-actions-run", runId: value, repo }
+    } else if (key === "pr") {
+        return { type: "github-pull-request", prNumber: value, repo }
+    } else if (key === "latest") {
+        return { type: "github-actions-run", runId: "latest", repo }
+    } else if (key === "branch") {
+        return { type: "github-branch", branch: value, repo }
+    } else if (key === "commit") {
+        return { type: "github-commit", commit: value, repo }
+    } else if (key === "builtin") {
+        return { type: "builtin", version: value }
+    } else if (key === "url") {
+        return { type: "url", url: value }
+    }
+    return null
+}
+
+/// Returns the repository given by `?repo=owner/name`, which GitHub sources are looked up in
+function repoFromURL(): string {
+    const query = new URLSearchParams(window.location.search)
+    const repo = query.get("repo") ?? DEFAULT_GITHUB_REPO
+    if (!/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+        throw new Error(`Invalid repository: ${repo}`)
+    }
+    return repo
 }
 
 function rubySourceFromURL(): RubySource | null {
     const query = new URLSearchParams(window.location.search)
+    const repo = repoFromURL()
     for (const [key, value] of query.entries()) {
-        if (key === "run") {
-            return { type: "github-actions-run", runId: value }
-        } else if (key === "pr") {
-            return { type: "github-pull-request", prNumber: value }
-        } else if (key === "latest") {
-            return { type: "github-actions-run", runId: "latest" }
-        } else if (key === "builtin") {
-            return { type: "builtin", version: value }
+        const source = rubySourceFromQueryParam(key, value, repo)
+        if (source != null) {
+            return source
         }
     }
     return { type: "builtin", version: "3.4" }
 }
 
+/// Query parameters that select a Ruby source
+const RUBY_SOURCE_QUERY_KEYS = ["run", "pr", "latest", "branch", "commit", "builtin", "url"]
+
+/// Parses a Ruby source written as `<key>:<value>` (e.g. "builtin:3.4", "pr:123" or "latest")
+function rubySourceFromSpec(spec: string, repo: string = DEFAULT_GITHUB_REPO): RubySource | null {
+    const [key, ...value] = spec.split(":")
+    return rubySourceFromQueryParam(key, value.join(":"), repo)
+}
+
+/// The inverse of rubySourceFromSpec, or null if the source cannot be written down (e.g. a local file)
+function rubySourceSpec(source: RubySource): string | null {
+    switch (source.type) {
+        case "github-actions-run":
+            return source.runId === "latest" ? "latest" : `run:${source.runId}`
+        case "github-pull-request":
+            return `pr:${source.prNumber}`
+        case "github-branch":
+            return `branch:${source.branch}`
+        case "github-commit":
+            return `commit:${source.commit}`
+        case "builtin":
+            return `builtin:${source.version}`
+        case "url":
+            return `url:${source.url}`
+        case "file":
+            return null
+    }
+}
+
+/// Returns the Ruby source to compare against given by `?compare=<key>:<value>`
+/// (e.g. "builtin:3.4", "pr:123" or "latest"), if any
+function compareRubySourceFromURL(): RubySource | null {
+    const query = new URLSearchParams(window.location.search)
+    const spec = query.get("compare")
+    if (spec == null) {
+        return null
+    }
+    const source = rubySourceFromSpec(spec, repoFromURL())
+    if (source == null) {
+        throw new Error(`Unknown Ruby source to compare: ${spec}`)
+    }
+    return source
+}
+
+/// Points the query string at the given source so that reloading the page loads it again
+function setRubySourceInURL(source: RubySource) {
+    const spec = rubySourceSpec(source)
+    if (spec == null) {
+        return
+    }
+    const url = new URL(window.location.href)
+    for (const key of RUBY_SOURCE_QUERY_KEYS) {
+        url.searchParams.delete(key)
+    }
+    const [key, ...value] = spec.split(":")
+    url.searchParams.set(key, value.join(":"))
+    window.history.replaceState({}, "", url.toString())
+}
+
+const RECENT_RUBY_SOURCES_KEY = "RECENT_RUBY_SOURCES"
+const MAX_RECENT_RUBY_SOURCES = 10
+
+/// GitHub builds loaded recently in the given repository, most recent first
+function recentRubySources(repo: string): RubySource[] {
+    let entries: { repo: string, spec: string }[] = []
+    try {
+        entries = JSON.parse(localStorage.getItem(RECENT_RUBY_SOURCES_KEY) ?? "[]")
+    } catch (error) {
+        console.warn("Ignoring broken list of recent Ruby builds", error)
+    }
+    return entries
+        .filter((entry) => entry.repo === repo)
+        .map((entry) => rubySourceFromSpec(entry.spec, repo))
+        .filter((source) => source != null)
+}
+
+/// Remembers a GitHub build so that the version picker can offer it later
+function rememberRubySource(source: RubySource) {
+    if (!("repo" in source)) {
+        return
+    }
+    const repo = source.repo ?? DEFAULT_GITHUB_REPO
+    const spec = rubySourceSpec(source)
+    let entries: { repo: string, spec: string }[] = []
+    try {
+        entries = JSON.parse(localStorage.getItem(RECENT_RUBY_SOURCES_KEY) ?? "[]")
+    } catch (error) {
+        // Start over
+    }
+    entries = entries.filter((entry) => entry.repo !== repo || entry.spec !== spec)
+    entries.unshift({ repo, spec })
+    localStorage.setItem(RECENT_RUBY_SOURCES_KEY, JSON.stringify(entries.slice(0, MAX_RECENT_RUBY_SOURCES)))
+}
+
+/// GitHub Actions runs whose artifacts are in the download cache
+async function cachedRubySources(repo: string, buildCache: BuildCache | null): Promise<RubySource[]> {
+    if (buildCache == null) {
+        return []
+    }
+    // Builds cached before their run was recorded cannot be told apart from other repositories' ones
+    return (await buildCache.list())
+        .filter((entry) => entry.run?.repo === repo)
+        .map((entry): RubySource => ({ type: "github-actions-run", runId: entry.run.id, repo }))
+}
+
+/**
+ * Builds the header dropdown to switch between Ruby builds without reloading the page.
+ * Call `refresh` to update the options after the current build or the cache changed.
+ */
+function createVersionPicker(repo: string, buildCache: BuildCache | null, getCurrent: () => RubySource, onSelect: (source: RubySource) => void) {
+    const select = document.createElement("select")
+    select.id = "ruby-version"
+    select.title = "Ruby build to run the code with"
+    select.classList.add("plrb-tools-more-tools-button", "plrb-version-picker")
+
+    const refresh = async () => {
+        const current = getCurrent()
+        const currentSpec = rubySourceSpec(current)
+        const groups: [string, RubySource[]][] = [
+            ["Built-in", BUILTIN_RUBY_VERSIONS.map((version) => ({ type: "builtin", version }))],
+            ["Recent", recentRubySources(repo)],
+            ["Cached", await cachedRubySources(repo, buildCache)],
+        ]
+        const seen = new Set<string>()
+        const optgroups: HTMLOptGroupElement[] = []
+        for (const [label, sources] of groups) {
+            const optgroup = document.createElement("optgroup")
+            optgroup.label = label
+            for (const source of sources) {
+                const spec = rubySourceSpec(source)
+                if (seen.has(spec)) {
+                    continue
+                }
+                seen.add(spec)
+                optgroup.appendChild(new Option(rubySourceLabel(source), spec))
+            }
+            if (optgroup.children.length > 0) {
+                optgroups.push(optgroup)
+            }
+        }
+        if (currentSpec == null || !seen.has(currentSpec)) {
+            // e.g. a local file, which cannot be picked again from here
+            const option = new Option(rubySourceLabel(current), currentSpec ?? "")
+            option.disabled = currentSpec == null
+            optgroups.unshift(Object.assign(document.createElement("optgroup"), { label: "Current" }))
+            optgroups[0].appendChild(option)
+        }
+        select.replaceChildren(...optgroups)
+        select.value = currentSpec ?? ""
+    }
+    select.addEventListener("change", () => {
+        const source = rubySourceFromSpec(select.value, repo)
+        if (source != null) {
+            onSelect(source)
+        }
+    })
+    return { select, refresh }
+}
+
+/// A short human-readable name of a Ruby source, e.g. "PR #123"
+function rubySourceLabel(source: RubySource): string {
+    // Mention the repository only if it is not the usual one
+    const repoPrefix = "repo" in source && source.repo != null && source.repo !== DEFAULT_GITHUB_REPO ? `${source.repo} ` : ""
+    switch (source.type) {
+        case "github-actions-run":
+            return repoPrefix + (source.runId === "latest" ? "master (latest)" : `Run ${source.runId}`)
+        case "github-pull-request":
+            return `${repoPrefix}PR #${source.prNumber}`
+        case "github-branch":
+            return `${repoPrefix}${source.branch}`
+        case "github-commit":
+            return `${repoPrefix}${source.commit.slice(0, 7)}`
+        case "builtin":
+            return `Ruby ${source.version}`
+        case "url":
+            return new URL(source.url, window.location.href).pathname.split("/").pop()
+        case "file":
+            return source.file.name
+    }
+}
+
 export type Options = {
     arguments: string[],
     env: Record<string, string>,
+    /// Interrupt the run after this many milliseconds. No limit if omitted or 0.
+    timeout?: number,
+    /// Node types to treat as the same in the "syntax-diff" action, on top of DEFAULT_NODE_TYPE_MAPPINGS.
+    /// e.g. `{ "NODE_ITER": "CallNode" }`, or null to skip a node and compare its children instead.
+    nodeTypeMappings?: NodeTypeMappings,
 }
 
 const DEFAULT_OPTIONS: Options = {
     arguments: [],
     env: {},
+    timeout: 10000,
 }
 
 type UIState = {
     code: string,
     action: string,
     options: Options,
+    stdin: string,
 }
 
 self.MonacoEnvironment = {
@@ -362,6 +856,7 @@ function initEditor(state: UIState) {
 
     const codeModel = monaco.editor.createModel(state.code, "ruby")
     const optionsModel = monaco.editor.createModel(JSON.stringify(state.options, null, 2), "json")
+    const stdinModel = monaco.editor.createModel(state.stdin, "plaintext")
 
     type Tab = {
         label: string,
@@ -381,7 +876,15 @@ function initEditor(state: UIState) {
             applyDecorations: (() => {
                 let lastDecorations: monaco.editor.IEditorDecorationsCollection | null = null
                 return (value) => {
-                    const [files, _] = splitFile(value)
+                    const [files, _, diagnostics] = splitFile(value)
+                    monaco.editor.setModelMarkers(codeModel, "split-file", diagnostics.map((diagnostic) => ({
+                        severity: diagnostic.severity === "error" ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+                        message: diagnostic.message,
+                        startLineNumber: diagnostic.line + 1,
+                        startColumn: 1,
+                        endLineNumber: diagnostic.line + 1,
+                        endColumn: codeModel.getLineMaxColumn(diagnostic.line + 1),
+                    })))
                     const decorations: monaco.editor.IModelDeltaDecoration[] = []
                     for (const [filename, file] of Object.entries(files)) {
                         const line = file.sourceLine;
@@ -413,16 +916,43 @@ function initEditor(state: UIState) {
                     return null;
                 }
             },
+        },
+        {
+            label: "Stdin",
+            model: stdinModel,
+            queryKey: "stdin",
+            active: false,
+            computeQueryValue: (value) => value,
         }
     ]
 
-    for (const tab of tabs) {
-        const updateURL = () => {
-            const url = new URL(window.location.href)
-            let content = tab.computeQueryValue(tab.model.getValue())
-            url.searchParams.set(tab.queryKey, content);
-            window.history.replaceState({}, "", url.toString())
+    // Keep the contents of all tabs compressed in the URL fragment so that long snippets can be shared
+    let latestURLUpdate = 0
+    const updateURL = async () => {
+        const updateId = ++latestURLUpdate
+        const permalink: Record<string, string> = {}
+        for (const tab of tabs) {
+            const content = tab.computeQueryValue(tab.model.getValue())
+            if (content == null) {
+                // Keep the last valid state in the URL
+                return
+            }
+            permalink[tab.queryKey] = content
+        }
+        const encoded = await compressToString(JSON.stringify(permalink))
+        if (updateId !== latestURLUpdate) {
+            // A newer update has been started while compressing
+            return
         }
+        const url = new URL(window.location.href)
+        for (const tab of tabs) {
+            // Drop the uncompressed form used by older links
+            url.searchParams.delete(tab.queryKey)
+        }
+        url.hash = new URLSearchParams({ [PERMALINK_FRAGMENT_KEY]: encoded }).toString()
+        window.history.replaceState({}, "", url.toString())
+    }
+    for (const tab of tabs) {
         tab.model.onDidChangeContent(() => {
             updateURL()
             if (tab.applyDecorations) {
@@ -463,18 +993,41 @@ function initEditor(state: UIState) {
 
     return {
         editor,
+        codeModel,
         getOptions() {
             return JSON.parse(optionsModel.getValue()) as Options
         },
         getCode() {
             return codeModel.getValue()
+        },
+        getStdin() {
+            return stdinModel.getValue()
         }
     };
 }
 
-function stateFromURL(): UIState {
+const PERMALINK_FRAGMENT_KEY = "z"
+
+/// Returns the tab contents stored in the URL fragment by `initEditor`, if any
+async function permalinkFromURL(): Promise<Record<string, string> | null> {
+    const fragment = new URLSearchParams(window.location.hash.slice(1))
+    const encoded = fragment.get(PERMALINK_FRAGMENT_KEY)
+    if (encoded == null) {
+        return null
+    }
+    try {
+        return JSON.parse(await decompressFromString(encoded))
+    } catch (error) {
+        console.warn("Ignoring broken permalink", error)
+        return null
+    }
+}
+
+async function stateFromURL(): Promise<UIState> {
     const query = new URLSearchParams(window.location.search)
-    let code = query.get("code")
+    // Older links have the tab contents uncompressed in the query string
+    const permalink = await permalinkFromURL() ?? Object.fromEntries(query.entries())
+    let code = permalink["code"] ?? null
     if (code == null) {
         code = `def hello = puts "Hello"
 hello
@@ -487,12 +1040,14 @@ puts RUBY_DESCRIPTION`
         action = "eval"
     }
 
-    let options = JSON.parse(query.get("options")) as Options | null
+    let options = JSON.parse(permalink["options"] ?? null) as Options | null
     if (options == null) {
         options = DEFAULT_OPTIONS
     }
 
-    return { code, action, options }
+    const stdin = permalink["stdin"] ?? ""
+
+    return { code, action, options, stdin }
 }
 
 function initUI(state: UIState, config: PlayRubyConfig, service: PlayRubyService) {
@@ -539,41 +1094,184 @@ function initUI(state: UIState, config: PlayRubyConfig, service: PlayRubyService
     }
 }
 
+type OutputStreamFilter = "both" | OutputStream
+
+function isStreamVisible(element: HTMLElement, stream: OutputStream) {
+    const filter = (element.dataset.streamFilter ?? "both") as OutputStreamFilter
+    return filter === "both" || filter === stream
+}
+
+/// Show only the output written to the given stream(s)
+function applyStreamFilter(element: HTMLElement, filter: OutputStreamFilter) {
+    element.dataset.streamFilter = filter
+    element.querySelectorAll<HTMLElement>("[data-stream]").forEach((span) => {
+        span.hidden = !isStreamVisible(element, span.dataset.stream as OutputStream)
+    })
+}
+
+/// Create a container for a chunk of output written to the given stream
+function appendStreamElement(element: HTMLElement, stream: OutputStream): HTMLSpanElement {
+    const span = document.createElement("span")
+    span.dataset.stream = stream
+    span.classList.add(`plrb-output-${stream}`)
+    span.hidden = !isStreamVisible(element, stream)
+    element.appendChild(span)
+    return span
+}
+
+/// Describe how a run ended, e.g. "exited 1 in 42 ms"
+function formatRunResult(result: RunResult): string {
+    const duration = `${Math.round(result.duration)} ms`
+    let summary: string
+    if (result.killed) {
+        summary = `killed after ${duration}`
+    } else if (result.exitCode == null) {
+        summary = `crashed after ${duration}`
+    } else {
+        summary = `exited ${result.exitCode} in ${duration}`
+    }
+    if (result.exception != null) {
+        summary += ` (${result.exception})`
+    }
+    return summary
+}
+
+type BisectSettings = {
+    /// How to decide whether a build behaves as expected
+    expectation: { type: "stdout", stdout: string } | { type: "exit-success" },
+    /// The number of latest commits on master to search
+    maxCommits: number,
+}
+
+/// Builds the dialog to start bisecting, calling onStart with the entered settings
+function createBisectDialog(onStart: (settings: BisectSettings) => void): HTMLDialogElement {
+    const dialog = document.createElement("dialog")
+    dialog.id = "modal-bisect"
+    dialog.classList.add("plrb-modal")
+    dialog.innerHTML = `
+        <div class="plrb-modal-content">
+            <form method="dialog">
+                <button class="plrb-modal-close-button">X</button>
+            </form>
+            <form id="bisect-form">
+                <h1>Bisect</h1>
+                <p>
+                    Find the first commit on master whose build runs the current code differently
+                    by binary-searching the successful wasm.yml runs.
+                </p>
+                <p>
+                    <label><input type="radio" name="expectation" value="stdout" checked> Passes if stdout is:</label>
+                    <textarea name="stdout" rows="4" class="plrb-modal-config-input"></textarea>
+                </p>
+                <p>
+                    <label><input type="radio" name="expectation" value="exit-success"> Passes if it exits with status 0</label>
+                </p>
+                <p>
+                    <label>Commits to search: <input type="number" name="max-commits" min="2" max="${MAX_BRANCH_COMMITS}" value="50" class="plrb-modal-config-input"></label>
+                </p>
+                <button type="submit" class="plrb-modal-config-save-button">Start</button>
+            </form>
+        </div>`
+    const form = dialog.querySelector("#bisect-form") as HTMLFormElement
+    form.addEventListener("submit", (event) => {
+        event.preventDefault()
+        const data = new FormData(form)
+        const expectation: BisectSettings["expectation"] = data.get("expectation") === "exit-success"
+            ? { type: "exit-success" }
+            : { type: "stdout", stdout: data.get("stdout") as string }
+        dialog.close()
+        onStart({ expectation, maxCommits: Number(data.get("max-commits")) })
+    })
+    dialog.addEventListener("click", (event) => {
+        if (event.target === dialog) {
+            // Clicked on the modal backdrop
+            dialog.close()
+        }
+    })
+    document.body.appendChild(dialog)
+    return dialog
+}
+
 interface OutputWriter {
-    write(message: string): void;
+    write(message: string, stream: OutputStream): void;
     finalize(): void;
 }
 
 class PlainOutputWriter implements OutputWriter {
+    private current: { stream: OutputStream, span: HTMLSpanElement } | null = null
     constructor(private element: HTMLElement) { }
 
-    write(message: string) {
-        this.element.innerText += message
+    write(message: string, stream: OutputStream) {
+        // Merge consecutive writes to the same stream into a single span
+        if (this.current == null || this.current.stream !== stream) {
+            this.current = { stream, span: appendStreamElement(this.element, stream) }
+        }
+        this.current.span.innerText += message
     }
     finalize(): void {}
 }
 
-/// Highlight (A,B)-(C,D) as a range in the editor
-class LocationHighlightingOutputWriter implements OutputWriter {
-    private buffered: string = ""
-    constructor(private element: HTMLElement, private editor: monaco.editor.IEditor) {}
+/// Keeps all output in memory until the run finishes
+class BufferedOutputWriter implements OutputWriter {
+    buffered: { message: string, stream: OutputStream }[] = []
+
+    write(message: string, stream: OutputStream) {
+        const last = this.buffered[this.buffered.length - 1]
+        if (last != null && last.stream === stream) {
+            last.message += message
+        } else {
+            this.buffered.push({ message, stream })
+        }
+    }
+    finalize(): void {}
+
+    /// Splits the output into lines, each attributed to the stream it started on
+    lines(): { text: string, stream: OutputStream }[] {
+        const lines: { text: string, stream: OutputStream }[] = []
+        let terminated = true
+        for (const { message, stream } of this.buffered) {
+            for (const [i, part] of message.split("\n").entries()) {
+                if (i === 0 && !terminated) {
+                    lines[lines.length - 1].text += part
+                } else {
+                    lines.push({ text: part, stream })
+                }
+            }
+            terminated = message.endsWith("\n")
+        }
+        if (terminated && lines.length > 0) {
+            // Drop the empty line after the last newline
+            lines.pop()
+        }
+        return lines
+    }
+}
 
-    write(message: string) {
-        this.buffered += message
+/// Highlight (A,B)-(C,D) as a range in the editor
+class LocationHighlightingOutputWriter extends BufferedOutputWriter {
+    constructor(private element: HTMLElement, private editor: monaco.editor.IEditor) {
+        super()
     }
+
     finalize(): void {
+        this.element.innerHTML = ""
+        for (const { message, stream } of this.buffered) {
+            this.renderRanges(message, appendStreamElement(this.element, stream))
+        }
+    }
+
+    protected renderRanges(text: string, container: HTMLElement) {
         const rangePattern = /\((\d+),(\d+)\)-\((\d+),(\d+)\)/g
         // Create spans for each range
-        this.element.innerHTML = ""
         let lastEnd = 0
-        for (const match of this.buffered.matchAll(rangePattern)) {
+        for (const match of text.matchAll(rangePattern)) {
             const [fullMatch, startLine, startColumn, endLine, endColumn] = match
-            const start = this.buffered.slice(lastEnd, match.index)
-            const range = this.buffered.slice(match.index, match.index + fullMatch.length)
+            const start = text.slice(lastEnd, match.index)
+            const range = text.slice(match.index, match.index + fullMatch.length)
             lastEnd = match.index + fullMatch.length
             const span = document.createElement("span")
             span.innerText = start
-            this.element.appendChild(span)
+            container.appendChild(span)
             const rangeSpan = document.createElement("span")
             rangeSpan.innerText = range
             rangeSpan.addEventListener("mouseover", () => {
@@ -584,29 +1282,564 @@ class LocationHighlightingOutputWriter implements OutputWriter {
                 this.editor.setSelection(range)
             })
             rangeSpan.classList.add("plrb-output-range")
-            this.element.appendChild(rangeSpan)
+            container.appendChild(rangeSpan)
         }
-        const end = this.buffered.slice(lastEnd)
+        const end = text.slice(lastEnd)
         const span = document.createElement("span")
         span.innerText = end
-        this.element.appendChild(span)
+        container.appendChild(span)
     }
 }
 
+/// Shows the `--dump=insns` output as collapsible iseqs linked to the source lines they were compiled from.
+/// Hovering or selecting a line in the editor highlights its instructions, and hovering an instruction
+/// highlights its line. Falls back to LocationHighlightingOutputWriter if the output has no iseqs.
+class InstructionOutputWriter extends LocationHighlightingOutputWriter {
+    // The rows of the instructions compiled from each line of the Code tab
+    private rowsByLine = new Map<number, HTMLElement[]>()
+    private highlightedRows: HTMLElement[] = []
+
+    /**
+     * @param sourceLineOf Maps a line of a script to the line in the Code tab, or returns null if it is outside the script
+     */
+    constructor(
+        private insnsElement: HTMLElement, private codeEditor: monaco.editor.ICodeEditor, private codeModel: monaco.editor.ITextModel,
+        private sourceLineOf: (path: string, line: number) => number | null
+    ) {
+        super(insnsElement, codeEditor)
+    }
+
+    finalize(): void {
+        const stdout = this.buffered.filter(({ stream }) => stream === "stdout").map(({ message }) => message).join("")
+        const iseqs = parseDisassembly(stdout)
+        if (iseqs.length === 0) {
+            super.finalize()
+            return
+        }
+        this.insnsElement.innerHTML = ""
+        for (const { message, stream } of this.buffered) {
+            if (stream === "stderr") {
+                appendStreamElement(this.insnsElement, stream).innerText = message
+            }
+        }
+        const container = appendStreamElement(this.insnsElement, "stdout")
+        const sourceHighlight = this.codeEditor.createDecorationsCollection()
+        for (const iseq of iseqs) {
+            const path = iseq.path.replace(/^\//, "")
+            const details = document.createElement("details")
+            details.open = true
+            details.dataset.iseqKind = iseq.kind
+            const summary = document.createElement("summary")
+            this.renderRanges(iseq.header, summary)
+            details.appendChild(summary)
+            for (const line of iseq.lines) {
+                const row = document.createElement("div")
+                row.innerText = line.type === "text" ? line.text : line.instruction.text
+                const sourceLine = line.type === "instruction" && line.instruction.line != null
+                    ? this.sourceLineOf(path, line.instruction.line)
+                    : null
+                if (sourceLine == null) {
+                    details.appendChild(row)
+                    continue
+                }
+                row.classList.add("plrb-output-insns-link")
+                row.addEventListener("mouseenter", () => {
+                    sourceHighlight.set([{
+                        range: new monaco.Range(sourceLine, 1, sourceLine, 1),
+                        options: { isWholeLine: true, className: "plrb-editor-insns-highlight" },
+                    }])
+                    this.highlightRows(sourceLine, false)
+                })
+                row.addEventListener("mouseleave", () => sourceHighlight.clear())
+                row.addEventListener("click", () => {
+                    if (this.codeEditor.getModel() !== this.codeModel) {
+                        return
+                    }
+                    this.codeEditor.revealLineInCenterIfOutsideViewport(sourceLine, monaco.editor.ScrollType.Smooth)
+                    this.codeEditor.setSelection(new monaco.Range(sourceLine, 1, sourceLine, this.codeModel.getLineMaxColumn(sourceLine)))
+                })
+                if (!this.rowsByLine.has(sourceLine)) {
+                    this.rowsByLine.set(sourceLine, [])
+                }
+                this.rowsByLine.get(sourceLine).push(row)
+                details.appendChild(row)
+            }
+            container.appendChild(details)
+        }
+
+        // Mark the lines that have instructions in the gutter
+        const gutter = this.codeEditor.createDecorationsCollection()
+        const showGutter = () => {
+            if (this.codeEditor.getModel() !== this.codeModel) {
+                gutter.clear()
+                return
+            }
+            gutter.set(Array.from(this.rowsByLine).map(([line, rows]) => ({
+                range: new monaco.Range(line, 1, line, 1),
+                options: {
+                    linesDecorationsClassName: "plrb-editor-insns-gutter",
+                    linesDecorationsTooltip: `${rows.length} instructions`,
+                },
+            })))
+        }
+        showGutter()
+        const disposables = [
+            this.codeEditor.onDidChangeModel(showGutter),
+            this.codeEditor.onDidChangeCursorPosition(({ position }) => {
+                this.highlightRows(position.lineNumber, true)
+            }),
+            this.codeEditor.onMouseMove(({ target }) => {
+                if (target.position != null) {
+                    this.highlightRows(target.position.lineNumber, false)
+                }
+            }),
+            this.codeEditor.onMouseLeave(() => {
+                this.highlightRows(this.codeEditor.getPosition()?.lineNumber ?? 0, false)
+            }),
+            // The instructions no longer match the code once it changes
+            this.codeModel.onDidChangeContent(() => dispose()),
+        ]
+        const dispose = () => {
+            disposables.forEach((disposable) => disposable.dispose())
+            gutter.clear()
+            sourceHighlight.clear()
+        }
+        // Stop once the output has been replaced by another run
+        const observer = new MutationObserver(() => {
+            if (!container.isConnected) {
+                observer.disconnect()
+                dispose()
+            }
+        })
+        observer.observe(this.insnsElement, { childList: true })
+    }
+
+    /// Highlights the instructions compiled from the given line of the Code tab
+    private highlightRows(line: number, reveal: boolean) {
+        if (this.codeEditor.getModel() !== this.codeModel) {
+            return
+        }
+        for (const row of this.highlightedRows) {
+            row.classList.remove("plrb-output-insns-highlight")
+        }
+        this.highlightedRows = this.rowsByLine.get(line) ?? []
+        for (const row of this.highlightedRows) {
+            row.classList.add("plrb-output-insns-highlight")
+        }
+        if (reveal && this.highlightedRows.length > 0) {
+            const details = this.highlightedRows[0].closest("details")
+            details.open = true
+            this.highlightedRows[0].scrollIntoView({ block: "nearest" })
+        }
+    }
+}
+
+/// Streams the output like PlainOutputWriter, then makes the `path:line` references to the
+/// scripts in the Code tab (e.g. in backtraces) jump to that line once the run finishes
+class BacktraceLinkingOutputWriter extends BufferedOutputWriter {
+    private plain: PlainOutputWriter
+
+    /**
+     * @param sourceLineOf Maps a line of a script to the line in the Code tab, or returns null if it is outside the script
+     */
+    constructor(
+        private element: HTMLElement, private editor: monaco.editor.ICodeEditor, private codeModel: monaco.editor.ITextModel,
+        private paths: string[], private sourceLineOf: (path: string, line: number) => number | null
+    ) {
+        super()
+        this.plain = new PlainOutputWriter(element)
+    }
+
+    write(message: string, stream: OutputStream) {
+        super.write(message, stream)
+        this.plain.write(message, stream)
+    }
+
+    finalize(): void {
+        this.element.innerHTML = ""
+        for (const { message, stream } of this.buffered) {
+            this.renderReferences(message, appendStreamElement(this.element, stream))
+        }
+    }
+
+    private renderReferences(text: string, container: HTMLElement) {
+        let lastEnd = 0
+        for (const reference of findPathReferences(text, this.paths)) {
+            const line = this.sourceLineOf(reference.path, reference.line)
+            if (line == null) {
+                continue
+            }
+            container.appendChild(document.createTextNode(text.slice(lastEnd, reference.index)))
+            lastEnd = reference.index + reference.length
+            const link = document.createElement("span")
+            link.innerText = text.slice(reference.index, lastEnd)
+            link.title = `Go to line ${line}`
+            link.classList.add("plrb-output-range", "plrb-output-backtrace-link")
+            link.addEventListener("click", () => {
+                // The lines are those of the Code tab, not of Options or Stdin
+                if (this.editor.getModel() !== this.codeModel) {
+                    return
+                }
+                this.editor.revealLineInCenter(line, monaco.editor.ScrollType.Smooth)
+                this.editor.setSelection(new monaco.Range(line, 1, line, 1))
+                this.editor.focus()
+            })
+            container.appendChild(link)
+        }
+        container.appendChild(document.createTextNode(text.slice(lastEnd)))
+    }
+}
+
+/// Shows the `--dump=parsetree` output as a collapsible tree. Selecting a node selects its range
+/// in the editor, and moving the cursor in the editor reveals the innermost node at the cursor.
+/// Falls back to LocationHighlightingOutputWriter if the output has no tree, e.g. on a syntax error.
+class SyntaxTreeOutputWriter extends LocationHighlightingOutputWriter {
+    private nodeElements = new Map<SyntaxTreeNode, HTMLDetailsElement>()
+    private selected: HTMLElement | null = null
+    // Set once the tree is rendered
+    private onSelectNode: (node: SyntaxTreeNode) => void = () => {}
+
+    constructor(private treeElement: HTMLElement, private codeEditor: monaco.editor.ICodeEditor, private codeModel: monaco.editor.ITextModel) {
+        super(treeElement, codeEditor)
+    }
+
+    finalize(): void {
+        const stdout = this.buffered.filter(({ stream }) => stream === "stdout").map(({ message }) => message).join("")
+        const roots = parseSyntaxTree(stdout)
+        if (roots.length === 0) {
+            super.finalize()
+            return
+        }
+        this.treeElement.innerHTML = ""
+        for (const { message, stream } of this.buffered) {
+            if (stream === "stderr") {
+                appendStreamElement(this.treeElement, stream).innerText = message
+            }
+        }
+        const tree = appendStreamElement(this.treeElement, "stdout")
+        tree.classList.add("plrb-syntax-tree")
+        for (const root of roots) {
+            tree.appendChild(this.renderNode(root))
+        }
+
+        // Selecting a node moves the cursor, which must not select the innermost node instead
+        let selectingNode = false
+        const listener = this.codeEditor.onDidChangeCursorPosition(({ position }) => {
+            if (!tree.isConnected) {
+                // The output has been replaced by another run
+                listener.dispose()
+                return
+            }
+            if (selectingNode || this.codeEditor.getModel() !== this.codeModel) {
+                return
+            }
+            const path = findNodePathAt(roots, position.lineNumber, position.column - 1)
+            if (path.length === 0) {
+                return
+            }
+            for (const node of path.slice(0, -1)) {
+                this.nodeElements.get(node).open = true
+            }
+            this.select(this.nodeElements.get(path[path.length - 1]))
+        })
+        this.onSelectNode = (node) => {
+            if (node.location == null || this.codeEditor.getModel() !== this.codeModel) {
+                return
+            }
+            const { startLine, startColumn, endLine, endColumn } = node.location
+            // NOTE: Monaco's columns are 1-indexed but Ruby's are 0-indexed
+            const range = new monaco.Range(startLine, startColumn + 1, endLine, endColumn + 1)
+            selectingNode = true
+            try {
+                this.codeEditor.revealRangeInCenterIfOutsideViewport(range, monaco.editor.ScrollType.Smooth)
+                this.codeEditor.setSelection(range)
+            } finally {
+                selectingNode = false
+            }
+        }
+    }
+
+    private renderNode(node: SyntaxTreeNode): HTMLElement {
+        const details = document.createElement("details")
+        details.open = true
+        details.classList.add("plrb-syntax-tree-node")
+        this.nodeElements.set(node, details)
+        const summary = document.createElement("summary")
+        const label = document.createElement("span")
+        label.innerText = node.field == null ? node.type : `${node.field}: ${node.type}`
+        if (node.location != null) {
+            const { startLine, startColumn, endLine, endColumn } = node.location
+            label.innerText += ` (${startLine},${startColumn})-(${endLine},${endColumn})`
+        }
+        label.classList.add("plrb-syntax-tree-label", "plrb-syntax-tree-link")
+        label.addEventListener("click", (event) => {
+            // Select the node without collapsing it. The marker still toggles it.
+            event.preventDefault()
+            this.select(details)
+            this.onSelectNode(node)
+        })
+        summary.appendChild(label)
+        details.appendChild(summary)
+        const body = document.createElement("div")
+        body.classList.add("plrb-syntax-tree-children")
+        for (const [name, value] of node.attributes) {
+            const attribute = document.createElement("div")
+            attribute.innerText = `${name}: ${value}`
+            body.appendChild(attribute)
+        }
+        for (const child of node.children) {
+            body.appendChild(this.renderNode(child))
+        }
+        details.appendChild(body)
+        return details
+    }
+
+    private select(details: HTMLDetailsElement) {
+        this.selected?.classList.remove("plrb-syntax-tree-selected")
+        const label = details.querySelector<HTMLElement>(":scope > summary > .plrb-syntax-tree-label")
+        label.classList.add("plrb-syntax-tree-selected")
+        label.scrollIntoView({ block: "nearest" })
+        this.selected = label
+    }
+}
+
+/// Shows the structural diff of the parse.y and prism trees printed by the "syntax-diff" action.
+/// Identical subtrees are collapsed, and the source ranges of the nodes select them in the editor.
+class SyntaxDiffOutputWriter extends LocationHighlightingOutputWriter {
+    constructor(private diffElement: HTMLElement, private codeEditor: monaco.editor.IEditor, private mappings: NodeTypeMappings) {
+        super(diffElement, codeEditor)
+    }
+
+    finalize(): void {
+        const stdout = this.buffered.filter(({ stream }) => stream === "stdout").map(({ message }) => message).join("")
+        const [parseyDump, prismDump] = stdout.split(SYNTAX_DIFF_SEPARATOR)
+        const [parsey, prism] = [parseSyntaxTree(parseyDump), parseSyntaxTree(prismDump ?? "")]
+        if (parsey.length === 0 || prism.length === 0) {
+            // e.g. a syntax error in either parser
+            super.finalize()
+            return
+        }
+        const diff = diffSyntaxTrees(parsey, prism, this.mappings)
+        this.diffElement.innerHTML = ""
+        for (const { message, stream } of this.buffered) {
+            if (stream === "stderr") {
+                appendStreamElement(this.diffElement, stream).innerText = message
+            }
+        }
+        const container = appendStreamElement(this.diffElement, "stdout")
+        const summary = document.createElement("div")
+        const mismatches = this.countMismatches(diff)
+        summary.innerText = mismatches === 0
+            ? "The parse.y and prism trees match\n"
+            : `${mismatches} subtrees differ between parse.y (-) and prism (+)\n`
+        container.appendChild(summary)
+        for (const entry of diff) {
+            container.appendChild(this.renderEntry(entry))
+        }
+    }
+
+    private countMismatches(entries: SyntaxDiffEntry[]): number {
+        return entries.reduce((count, entry) => count + (entry.type === "equal" ? this.countMismatches(entry.children) : 1), 0)
+    }
+
+    private renderEntry(entry: SyntaxDiffEntry): HTMLElement {
+        if (entry.type !== "equal") {
+            const [sign, parser, { node }] = entry.type === "delete" ? ["-", "parse.y", entry.left] : ["+", "prism", entry.right]
+            const row = document.createElement("div")
+            row.classList.add("plrb-output-diff-changed")
+            row.append(`${sign} ${parser} only: ${node.type} `, this.rangeLink(node))
+            return row
+        }
+        const details = document.createElement("details")
+        details.open = !entry.identical
+        const summary = document.createElement("summary")
+        if (!entry.identical) {
+            summary.classList.add("plrb-output-diff-changed")
+        }
+        summary.append(
+            `${entry.left.type}: parse.y ${entry.left.node.type} `, this.rangeLink(entry.left.node),
+            `, prism ${entry.right.node.type} `, this.rangeLink(entry.right.node),
+        )
+        details.appendChild(summary)
+        const body = document.createElement("div")
+        body.classList.add("plrb-syntax-tree-children")
+        for (const child of entry.children) {
+            body.appendChild(this.renderEntry(child))
+        }
+        details.appendChild(body)
+        return details
+    }
+
+    private rangeLink(node: SyntaxTreeNode): HTMLElement {
+        const span = document.createElement("span")
+        if (node.location == null) {
+            return span
+        }
+        const { startLine, startColumn, endLine, endColumn } = node.location
+        span.innerText = `(${startLine},${startColumn})-(${endLine},${endColumn})`
+        span.classList.add("plrb-output-range", "plrb-syntax-tree-link")
+        span.addEventListener("click", (event) => {
+            // Select the range without toggling the enclosing subtree
+            event.preventDefault()
+            // NOTE: Monaco's columns are 1-indexed but Ruby's are 0-indexed
+            const range = new monaco.Range(startLine, startColumn + 1, endLine, endColumn + 1)
+            this.codeEditor.revealRangeInCenter(range, monaco.editor.ScrollType.Smooth)
+            this.codeEditor.setSelection(range)
+        })
+        return span
+    }
+}
+
+type ComparedOutput = {
+    label: string,
+    output: BufferedOutputWriter,
+    result: RunResult,
+}
+
+/// Show the outputs of two runs side by side, highlighting the lines that differ
+function renderComparison(element: HTMLElement, left: ComparedOutput, right: ComparedOutput): boolean {
+    const leftLines = left.output.lines()
+    const rightLines = right.output.lines()
+    const edits = diffSequences(leftLines, rightLines, (a, b) => a.text === b.text && a.stream === b.stream)
+    const changed = [new Set<number>(), new Set<number>()]
+    for (const edit of edits) {
+        if (edit.type === "delete") {
+            changed[0].add(edit.oldIndex)
+        } else if (edit.type === "insert") {
+            changed[1].add(edit.newIndex)
+        }
+    }
+
+    element.innerHTML = ""
+    const container = document.createElement("div")
+    container.classList.add("plrb-output-comparison")
+    for (const [side, { label, result }, lines] of [[0, left, leftLines], [1, right, rightLines]] as const) {
+        const column = document.createElement("div")
+        column.classList.add("plrb-output-comparison-column")
+        const header = document.createElement("div")
+        header.classList.add("plrb-output-comparison-header")
+        header.innerText = `${label}: ${formatRunResult(result)}`
+        column.appendChild(header)
+        for (const [i, line] of lines.entries()) {
+            const span = appendStreamElement(column, line.stream)
+            span.innerText = line.text + "\n"
+            if (changed[side].has(i)) {
+                span.classList.add("plrb-output-diff-changed")
+            }
+        }
+        container.appendChild(column)
+    }
+    element.appendChild(container)
+    return changed[0].size === 0 && changed[1].size === 0 && left.result.exitCode === right.result.exitCode
+}
+
+type MatrixRow = ComparedOutput
+
+/// Show the outputs of the same code on several Ruby builds in a table,
+/// highlighting the rows that behave differently from the previous one
+function renderMatrix(element: HTMLElement, rows: MatrixRow[]) {
+    element.innerHTML = ""
+    const table = document.createElement("table")
+    table.classList.add("plrb-output-matrix")
+    const header = table.createTHead().insertRow()
+    for (const title of ["Ruby", "Status", "Output"]) {
+        const th = document.createElement("th")
+        th.innerText = title
+        header.appendChild(th)
+    }
+    const body = table.createTBody()
+    let previous: { output: string, exitCode: number | null } | null = null
+    for (const { label, output, result } of rows) {
+        const row = body.insertRow()
+        row.insertCell().innerText = label
+        row.insertCell().innerText = formatRunResult(result)
+        const outputCell = row.insertCell()
+        for (const { message, stream } of output.buffered) {
+            appendStreamElement(outputCell, stream).innerText = message
+        }
+        const combined = output.buffered.map(({ message }) => message).join("")
+        if (previous != null && (previous.output !== combined || previous.exitCode !== result.exitCode)) {
+            row.classList.add("plrb-output-diff-changed")
+        }
+        previous = { output: combined, exitCode: result.exitCode }
+    }
+    element.appendChild(table)
+}
+
 export async function init(config: PlayRubyConfig) {
-    const rubySource = rubySourceFromURL()
-    const uiState = stateFromURL();
+    let rubySource = rubySourceFromURL()
+    const uiState = await stateFromURL();
 
-    const service = new PlayRubyService(config.SERVER_URL)
-    const tokenBasedDownloader = new TokenBasedArtifactDownloader("ruby/ruby", {
+    const repo = repoFromURL()
+    const service = new PlayRubyService(config.SERVER_URL, repo)
+    const tokenBasedDownloader = new TokenBasedArtifactDownloader(repo, {
         "Authorization": `token ${localStorage.getItem("GITHUB_TOKEN")}`
     })
     const downloader = config.ENABLE_GITHUB_INTEGRATION ? service : tokenBasedDownloader
+    installStyles()
     initUI(uiState, config, service);
-    const { editor, getOptions, getCode } = initEditor(uiState)
+    const { editor, codeModel, getOptions, getCode, getStdin } = initEditor(uiState)
     const buttonRun = document.getElementById("button-run")
+    const localBuildSection = document.createElement("section")
+    localBuildSection.id = "config-local-build"
+    localBuildSection.innerHTML = `
+        <h2>Local Ruby Build</h2>
+        <p>
+            Load a ruby.wasm build from your machine: a <code>ruby-wasm-install</code> zip artifact or an <code>install.tar.gz</code>.
+            To load a build served over HTTP, add <code>?url=</code> to the page URL instead.
+        </p>`
+    const localBuildInput = document.createElement("input")
+    localBuildInput.type = "file"
+    localBuildInput.accept = ".zip,.tar.gz,.tgz"
+    localBuildSection.appendChild(localBuildInput)
+    document.getElementById("config-form").appendChild(localBuildSection)
+    const buildCache = await openBuildCache()
+    if (buildCache != null) {
+        // Install snapshots are stored by the workers after their build, so they are only counted from here on
+        buildCache.evict().catch((error) => console.warn("Failed to evict old Ruby builds", error))
+        const buildCachePanel = new BuildCachePanel(document.getElementById("config-form"), buildCache)
+        document.getElementById("button-show-config").addEventListener("click", () => buildCachePanel.reload())
+    }
+    const buttonStop = document.createElement("button")
+    buttonStop.id = "button-stop"
+    buttonStop.title = "Stop"
+    buttonStop.disabled = true
+    buttonStop.classList.add("plrb-tools-do-button", "plrb-tools-stop-button")
+    buttonStop.innerHTML = `<svg width="14" height="14" style="padding-top: 3px;"><rect width="14" height="14" fill="white" /></svg>`
+    buttonRun.after(buttonStop)
+    const outputStreamSelect = document.createElement("select")
+    outputStreamSelect.id = "output-stream"
+    outputStreamSelect.title = "Output streams to show"
+    outputStreamSelect.classList.add("plrb-tools-more-tools-button", "plrb-tools-output-stream-select")
+    for (const [value, label] of [["both", "stdout + stderr"], ["stdout", "stdout"], ["stderr", "stderr"]]) {
+        outputStreamSelect.appendChild(new Option(label, value))
+    }
+    buttonRun.parentElement.after(outputStreamSelect)
+    const buttonMatrix = document.createElement("button")
+    buttonMatrix.id = "button-matrix"
+    buttonMatrix.title = `Run on Ruby ${BUILTIN_RUBY_VERSIONS.join(", ")}`
+    buttonMatrix.innerText = "Matrix"
+    buttonMatrix.classList.add("plrb-tools-more-tools-button", "plrb-tools-matrix-button")
+    outputStreamSelect.after(buttonMatrix)
+    const buttonBisect = document.createElement("button")
+    buttonBisect.id = "button-bisect"
+    buttonBisect.title = "Find the commit on master that changed the behaviour of the code"
+    buttonBisect.innerText = "Bisect"
+    buttonBisect.classList.add("plrb-tools-more-tools-button", "plrb-tools-bisect-button")
+    buttonMatrix.after(buttonBisect)
     const outputPane = document.getElementById("output")
+    const outputStatus = document.createElement("div")
+    outputStatus.id = "output-status"
+    outputStatus.classList.add("plrb-output-status")
+    outputPane.after(outputStatus)
+    const outputFiles = new OutputFilesPanel(outputPane.parentElement)
+    const editorElement = document.getElementById("editor")
+    const uploadedFiles = await UploadedFilesPanel.create(editorElement.parentElement, editorElement)
+    outputStreamSelect.addEventListener("change", () => {
+        applyStreamFilter(outputPane, outputStreamSelect.value as OutputStreamFilter)
+    })
     const actionSelect = document.getElementById("action") as HTMLSelectElement
+    actionSelect.appendChild(new Option("Syntax diff (parse.y vs Prism)", "syntax-diff"))
     actionSelect.value = uiState.action
     actionSelect.addEventListener("change", () => {
         const url = new URL(window.location.href)
@@ -618,8 +1851,11 @@ export async function init(config: PlayRubyConfig) {
         const statusElement = document.getElementById("status")
         statusElement.innerText = status
     }
-    const setMetadata = (run: any) => {
-        const metadataElement = document.getElementById("metadata") as HTMLSpanElement;
+    const metadataElement = document.getElementById("metadata") as HTMLSpanElement;
+    // The part of the metadata describing the active build, which is replaced when switching builds
+    const sourceMetadataElement = document.createElement("span")
+    metadataElement.appendChild(sourceMetadataElement)
+    const renderMetadata = (source: RubySource, run: any, target: HTMLElement = metadataElement) => {
         const linkElement = (link: string, text: string) => {
             const a = document.createElement("a")
             a.href = link
@@ -629,64 +1865,495 @@ export async function init(config: PlayRubyConfig) {
         }
         const commitLink = () => {
             const description = `Commit: ${run["head_commit"]["message"].split("\n")[0]} (${run["head_commit"]["id"].slice(0, 7)})`
-            const commitURL = `https://github.com/ruby/ruby/commit/${run["head_commit"]["id"]}`
+            const commitURL = `https://github.com/${repo}/commit/${run["head_commit"]["id"]}`
             return linkElement(commitURL, description)
         }
-        switch (rubySource.type) {
+        if (repo !== DEFAULT_GITHUB_REPO && "repo" in source) {
+            target.appendChild(linkElement(`https://github.com/${repo}`, repo))
+            target.appendChild(document.createTextNode(` `))
+        }
+        switch (source.type) {
             case "github-actions-run": {
                 const runLink = linkElement(run["html_url"], run["id"])
-                metadataElement.appendChild(document.createTextNode(`GitHub Actions run (`))
-                metadataElement.appendChild(runLink)
-                metadataElement.appendChild(document.createTextNode(`) `))
-                metadataElement.appendChild(commitLink())
+                target.appendChild(document.createTextNode(`GitHub Actions run (`))
+                target.appendChild(runLink)
+                target.appendChild(document.createTextNode(`) `))
+                target.appendChild(commitLink())
                 break
             }
             case "github-pull-request": {
-                const prLink = linkElement(`https://github.com/ruby/ruby/pull/${rubySource.prNumber}`, `#${rubySource.prNumber}`)
-                metadataElement.appendChild(document.createTextNode(`GitHub PR (`))
-                metadataElement.appendChild(prLink)
-                metadataElement.appendChild(document.createTextNode(`) `))
-                metadataElement.appendChild(commitLink())
+                const prLink = linkElement(`https://github.com/${repo}/pull/${source.prNumber}`, `#${source.prNumber}`)
+                target.appendChild(document.createTextNode(`GitHub PR (`))
+                target.appendChild(prLink)
+                target.appendChild(document.createTextNode(`) `))
+                target.appendChild(commitLink())
+                break
+            }
+            case "github-branch": {
+                const branchLink = linkElement(`https://github.com/${repo}/tree/${source.branch.split("/").map(encodeURIComponent).join("/")}`, source.branch)
+                const runLink = linkElement(run["html_url"], run["id"])
+                target.appendChild(document.createTextNode(`GitHub branch (`))
+                target.appendChild(branchLink)
+                target.appendChild(document.createTextNode(`, run `))
+                target.appendChild(runLink)
+                target.appendChild(document.createTextNode(`) `))
+                target.appendChild(commitLink())
+                break
+            }
+            case "github-commit": {
+                const runLink = linkElement(run["html_url"], run["id"])
+                target.appendChild(document.createTextNode(`GitHub commit (run `))
+                target.appendChild(runLink)
+                target.appendChild(document.createTextNode(`) `))
+                target.appendChild(commitLink())
                 break
             }
             case "builtin":
                 const description = "Built-in Ruby"
                 break
+            case "url":
+                target.appendChild(document.createTextNode(`Build from `))
+                target.appendChild(linkElement(source.url, source.url))
+                break
+            case "file":
+                target.appendChild(document.createTextNode(`Local build (${source.file.name})`))
+                break
         }
     }
 
     try {
-        const makeRubyWorker = await initRubyWorkerClass(rubySource, downloader, setStatus, setMetadata)
+        const compareSource = compareRubySourceFromURL()
+        const [makeRubyWorker, makeCompareRubyWorker] = await Promise.all([
+            initRubyWorkerClass(rubySource, downloader, setStatus, (run) => renderMetadata(rubySource, run, sourceMetadataElement)),
+            compareSource == null ? null : initRubyWorkerClass(compareSource, downloader, setStatus, (run) => {
+                metadataElement.appendChild(document.createTextNode(" vs "))
+                renderMetadata(compareSource, run)
+            }),
+        ])
         if (makeRubyWorker == null) {
             return
         }
-        const worker = await makeRubyWorker()
-        const runCode = async (code: string) => {
-            const selectedAction = actionSelect.value
-            outputPane.innerText = ""
+        const reportWorkerError = (error: Error) => {
+            console.error(error)
+            setStatus(`Failed to restart Ruby: ${error.message}`)
+        }
+        let runner = await RubyRunner.create(makeRubyWorker, reportWorkerError)
+        if (rubySource.type === "url") {
+            renderMetadata(rubySource, null, sourceMetadataElement)
+        }
+        rememberRubySource(rubySource)
+        const compareRunner = makeCompareRubyWorker == null ? null : await RubyRunner.create(makeCompareRubyWorker, reportWorkerError)
+        if (compareSource?.type === "builtin") {
+            metadataElement.appendChild(document.createTextNode(` vs ${rubySourceLabel(compareSource)}`))
+        }
+        // Runners that the Stop button interrupts. Interrupting an idle runner does nothing.
+        const knownRunners = new Set([runner, compareRunner].filter((runner) => runner != null))
+        // Set while a bisection runs. Ends the whole bisection rather than the step in progress.
+        let stopBisect: (() => void) | null = null
+        buttonStop.addEventListener("click", () => {
+            knownRunners.forEach((runner) => runner.interrupt())
+            stopBisect?.()
+        })
+        let runningCount = 0
+
+        /// Collects the input for a run from the editor, or returns null if it is invalid.
+        /// The writer is then finalized, so that writers that buffer until the run ends show why.
+        const prepareRun = (code: string, outputWriter: OutputWriter): RunInput | null => {
             let options: Options = DEFAULT_OPTIONS
-            const outputWriter = (selectedAction == "compile" || selectedAction == "syntax" || selectedAction == "syntax+prism")
-                ? new LocationHighlightingOutputWriter(outputPane, editor)
-                : new PlainOutputWriter(outputPane)
             try {
                 options = getOptions()
             } catch (error) {
-                outputWriter.write(`Error parsing options: ${error.message}\n`)
-                return;
+                outputWriter.write(`Error parsing options: ${error.message}\n`, "stderr")
+                outputWriter.finalize()
+                return null
             }
-            const mainFile = "main.rb"
-            const [files, remaining] = splitFile(code)
-            const codeMap = { [mainFile]: remaining }
+            const mainFile = MAIN_FILE
+            const [files, remaining, diagnostics] = splitFile(code)
+            const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+            if (errors.length > 0) {
+                for (const error of errors) {
+                    outputWriter.write(`${mainFile}:${error.line + 1}: ${error.message}\n`, "stderr")
+                }
+                outputWriter.finalize()
+                return null
+            }
+            const codeMap: { [path: string]: string | Uint8Array } = {}
+            for (const file of uploadedFiles.files) {
+                codeMap[file.name] = file.data
+            }
+            Object.assign(codeMap, layoutSplitFiles(files, remaining))
+            return { codeMap, mainFile, stdin: getStdin(), action: actionSelect.value, options }
+        }
+        /// Lays out the files written in the Code tab as they are placed on the file system
+        const layoutSplitFiles = (files: { [filename: string]: FileEntry }, remaining: string) => {
+            const codeMap: { [path: string]: string | Uint8Array } = { [MAIN_FILE]: remaining }
             for (const [filename, file] of Object.entries(files)) {
-                // Prepend empty lines to the file content to match the original source line
-                codeMap[filename] = "\n".repeat(file.sourceLine + 1) + file.content
+                if (file.directory) {
+                    codeMap[`${filename}/`] = ""
+                } else if (typeof file.content === "string") {
+                    // Prepend empty lines to the file content to match the original source line
+                    codeMap[filename] = "\n".repeat(file.sourceLine + 1) + file.content
+                } else {
+                    codeMap[filename] = file.content
+                }
+            }
+            return codeMap
+        }
+        /// Paths of the Ruby scripts written in the Code tab. Thanks to the padding added by
+        /// `layoutSplitFiles`, their line numbers are the same as in the editor.
+        const scriptPaths = (files: { [filename: string]: FileEntry }) => {
+            return [MAIN_FILE].concat(Object.entries(files)
+                .filter(([filename, file]) => !file.directory && typeof file.content === "string" && filename.endsWith(".rb"))
+                .map(([filename]) => filename))
+        }
+        /// Maps a line of a script laid out by `layoutSplitFiles` to the line in the Code tab,
+        /// or to null if it is not part of the script (e.g. in the padding)
+        const sourceLineOf = (code: string) => {
+            const [files, remaining] = splitFile(code)
+            return (path: string, line: number): number | null => {
+                if (path === MAIN_FILE) {
+                    return line <= remaining.split("\n").length ? line : null
+                }
+                const file = files[path]
+                if (file == null || typeof file.content !== "string") {
+                    return null
+                }
+                // The padding keeps the line numbers, but the lines up to the `#---` line belong to other files
+                const firstLine = file.sourceLine + 2
+                const lastLine = file.sourceLine + 1 + file.content.split("\n").length
+                return firstLine <= line && line <= lastLine ? line : null
+            }
+        }
+        /// Shows the problems Ruby reported in the given stderr output as markers in the Code tab
+        const setRubyMarkers = (owner: string, stderr: string, paths: string[]) => {
+            const diagnostics = parseRubyDiagnostics(stderr, (path) => paths.includes(path))
+            monaco.editor.setModelMarkers(codeModel, owner, diagnostics.map((diagnostic) => {
+                const line = Math.min(diagnostic.line, codeModel.getLineCount())
+                const severity = {
+                    error: monaco.MarkerSeverity.Error,
+                    warning: monaco.MarkerSeverity.Warning,
+                    info: monaco.MarkerSeverity.Info,
+                }[diagnostic.severity]
+                const [startColumn, endColumn] = diagnostic.column == null
+                    ? [codeModel.getLineFirstNonWhitespaceColumn(line) || 1, codeModel.getLineMaxColumn(line)]
+                    : [diagnostic.column, diagnostic.column + 1]
+                return {
+                    severity,
+                    message: diagnostic.path === MAIN_FILE ? diagnostic.message : `${diagnostic.path}: ${diagnostic.message}`,
+                    startLineNumber: line,
+                    startColumn,
+                    endLineNumber: line,
+                    endColumn,
+                }
+            }))
+        }
+        // Markers of a run only apply to the code that was run
+        codeModel.onDidChangeContent(() => monaco.editor.setModelMarkers(codeModel, "ruby-run", []))
+
+        // Compile the code in the background as the user types, to mark syntax errors and parse-time warnings
+        let syntaxCheckTimer: ReturnType<typeof setTimeout> | null = null
+        const checkSyntax = async () => {
+            if (runningCount > 0) {
+                // The worker is busy. The run reports the same problems anyway.
+                return
+            }
+            const versionId = codeModel.getVersionId()
+            const [files, remaining, diagnostics] = splitFile(codeModel.getValue())
+            if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+                // The file layout is unknown. The "split-file" markers explain why.
+                monaco.editor.setModelMarkers(codeModel, "ruby-syntax", [])
+                return
+            }
+            const paths = scriptPaths(files)
+            let stderr: string
+            try {
+                stderr = await runner.checkSyntax(layoutSplitFiles(files, remaining), paths)
+            } catch (error) {
+                console.warn("Syntax check failed", error)
+                return
+            }
+            if (codeModel.getVersionId() === versionId) {
+                setRubyMarkers("ruby-syntax", stderr, paths)
             }
-            await worker.run(codeMap, mainFile, selectedAction, options, Comlink.proxy((text) => outputWriter.write(text)))
-            outputWriter.finalize()
         }
+        codeModel.onDidChangeContent(() => {
+            clearTimeout(syntaxCheckTimer)
+            syntaxCheckTimer = setTimeout(checkSyntax, 600)
+        })
+        checkSyntax()
+        /// Enables the Stop button while any run is in progress, and reports runs that fail to start
+        const whileRunning = async (body: () => Promise<void>) => {
+            runningCount++
+            buttonStop.disabled = false
+            try {
+                await body()
+            } catch (error) {
+                // e.g. the worker replacing an interrupted one failed to start
+                console.error(error)
+                outputStatus.innerText = `Run failed: ${error.message}`
+                outputStatus.classList.add("plrb-output-status-failure")
+            } finally {
+                runningCount--
+                buttonStop.disabled = runningCount === 0
+            }
+        }
+        const resetOutput = () => {
+            outputPane.innerText = ""
+            outputStatus.innerText = ""
+            outputFiles.clear()
+        }
+
+        /// The node type mappings from the Options tab. Invalid options are reported by `prepareRun`.
+        const nodeTypeMappings = (): NodeTypeMappings => {
+            try {
+                return getOptions().nodeTypeMappings ?? {}
+            } catch (error) {
+                return {}
+            }
+        }
+
+        const runCode = async (code: string) => {
+            const selectedAction = actionSelect.value
+            resetOutput()
+            const outputWriter = (selectedAction == "syntax" || selectedAction == "syntax+prism")
+                ? new SyntaxTreeOutputWriter(outputPane, editor, codeModel)
+                : selectedAction == "syntax-diff"
+                ? new SyntaxDiffOutputWriter(outputPane, editor, nodeTypeMappings())
+                : selectedAction == "compile"
+                ? new InstructionOutputWriter(outputPane, editor, codeModel, sourceLineOf(code))
+                : new BacktraceLinkingOutputWriter(outputPane, editor, codeModel, [MAIN_FILE].concat(Object.keys(splitFile(code)[0])), sourceLineOf(code))
+            const input = prepareRun(code, outputWriter)
+            if (input == null) {
+                return
+            }
+            await whileRunning(async () => {
+                if (compareRunner != null) {
+                    const outputs = [new BufferedOutputWriter(), new BufferedOutputWriter()]
+                    const [{ result }, { result: compareResult }] = await Promise.all([
+                        runner.run(input, (stream, text) => outputs[0].write(text, stream)),
+                        compareRunner.run(input, (stream, text) => outputs[1].write(text, stream)),
+                    ])
+                    const identical = renderComparison(
+                        outputPane,
+                        { label: rubySourceLabel(rubySource), output: outputs[0], result },
+                        { label: rubySourceLabel(compareSource), output: outputs[1], result: compareResult },
+                    )
+                    outputStatus.innerText = identical ? "Outputs are identical" : "Outputs differ"
+                    outputStatus.classList.toggle("plrb-output-status-failure", !identical)
+                    return
+                }
+                const versionId = codeModel.getVersionId()
+                let stderr = ""
+                const { result, rubyWorker } = await runner.run(input, (stream, text) => {
+                    if (stream === "stderr") {
+                        stderr += text
+                    }
+                    outputWriter.write(text, stream)
+                })
+                if (codeModel.getVersionId() === versionId) {
+                    setRubyMarkers("ruby-run", stderr, scriptPaths(splitFile(code)[0]))
+                }
+                if (rubyWorker != null) {
+                    await outputFiles.update(rubyWorker)
+                }
+                outputStatus.innerText = formatRunResult(result)
+                outputStatus.classList.toggle("plrb-output-status-failure", result.exitCode !== 0)
+                outputWriter.finalize()
+            })
+        }
+
+        /// Loads a runner for each builtin version, reusing the current one if it is builtin.
+        /// `owned` tells the runners that were loaded for the matrix only, which each hold a whole Ruby
+        /// and must be disposed of once the matrix is done.
+        const getMatrixRunners = async () => {
+            const entries = BUILTIN_RUBY_VERSIONS.map(async (version) => {
+                const source: RubySource = { type: "builtin", version }
+                const label = rubySourceLabel(source)
+                if (rubySource.type === "builtin" && rubySource.version === version) {
+                    return { label, runner, owned: false }
+                }
+                const makeRubyWorker = await initRubyWorkerClass(source, downloader, (status) => setStatus(`${label}: ${status}`), () => {})
+                const builtinRunner = await RubyRunner.create(makeRubyWorker, reportWorkerError)
+                knownRunners.add(builtinRunner)
+                return { label, runner: builtinRunner, owned: true }
+            })
+            if (rubySource.type !== "builtin") {
+                // Also include the build under review, e.g. a PR
+                entries.push(Promise.resolve({ label: rubySourceLabel(rubySource), runner, owned: false }))
+            }
+            const results = await Promise.allSettled(entries)
+            const failure = results.find((result) => result.status === "rejected")
+            const loaded = results.flatMap((result) => result.status === "fulfilled" ? [result.value] : [])
+            if (failure != null) {
+                await disposeMatrixRunners(loaded)
+                throw failure.reason
+            }
+            return loaded
+        }
+        const disposeMatrixRunners = async (runners: { runner: RubyRunner, owned: boolean }[]) => {
+            for (const { runner, owned } of runners) {
+                if (owned) {
+                    knownRunners.delete(runner)
+                    await runner.dispose()
+                }
+            }
+        }
+        const runMatrix = async (code: string) => {
+            resetOutput()
+            const input = prepareRun(code, new PlainOutputWriter(outputPane))
+            if (input == null) {
+                return
+            }
+            let runners: { label: string, runner: RubyRunner, owned: boolean }[]
+            try {
+                runners = await getMatrixRunners()
+            } catch (error) {
+                outputStatus.innerText = `Failed to load Ruby builds: ${error.message}`
+                return
+            }
+            try {
+                await whileRunning(async () => {
+                    const rows = await Promise.all(runners.map(async ({ label, runner }) => {
+                        const output = new BufferedOutputWriter()
+                        const { result } = await runner.run(input, (stream, text) => output.write(text, stream))
+                        return { label, output, result }
+                    }))
+                    renderMatrix(outputPane, rows)
+                })
+            } finally {
+                await disposeMatrixRunners(runners)
+            }
+        }
+        const runBisect = async (code: string, settings: BisectSettings) => {
+            resetOutput()
+            const log = new PlainOutputWriter(outputPane)
+            const input = prepareRun(code, log)
+            if (input == null) {
+                return
+            }
+            const describe = (run: any) => `${run["head_commit"]["id"].slice(0, 7)} ${run["head_commit"]["message"].split("\n")[0]}`
+            await whileRunning(async () => {
+                let stopped = false
+                let currentRunner: RubyRunner | null = null
+                stopBisect = () => {
+                    stopped = true
+                    currentRunner?.interrupt()
+                }
+                try {
+                    log.write(`Listing runs for the latest ${settings.maxCommits} commits on master...\n`, "stdout")
+                    // Oldest first
+                    const runs = (await downloader.getBranchRuns("master", settings.maxCommits)).reverse()
+                    log.write(`Found ${runs.length} successful runs\n`, "stdout")
+                    if (runs.length < 2) {
+                        log.write(`At least two runs are needed to bisect\n`, "stderr")
+                        return
+                    }
+
+                    const passes = async (index: number) => {
+                        const run = runs[index]
+                        setStatus(`Bisecting: ${describe(run)}`)
+                        const makeRubyWorker = await initRubyWorkerClass({ type: "github-actions-run", runId: String(run["id"]), repo }, downloader, setStatus, () => {}, false)
+                        const bisectRunner = await RubyRunner.create(makeRubyWorker, reportWorkerError, { restartAfterInterrupt: false })
+                        currentRunner = bisectRunner
+                        try {
+                            if (stopped) {
+                                throw new Error("Stopped")
+                            }
+                            const output = new BufferedOutputWriter()
+                            const { result } = await bisectRunner.run(input, (stream, text) => output.write(text, stream))
+                            if (result.killed) {
+                                // The build neither passed nor failed, so the search cannot go on
+                                throw new Error(stopped ? "Stopped" : `Timed out on ${describe(run)}`)
+                            }
+                            switch (settings.expectation.type) {
+                                case "exit-success":
+                                    return result.exitCode === 0
+                                case "stdout": {
+                                    const stdout = output.buffered.filter(({ stream }) => stream === "stdout").map(({ message }) => message).join("")
+                                    return stdout.trimEnd() === settings.expectation.stdout.trimEnd()
+                                }
+                            }
+                        } finally {
+                            // Each build takes a lot of memory, so do not keep it around
+                            currentRunner = null
+                            await bisectRunner.dispose()
+                        }
+                    }
+                    const index = await findFirstChange(runs.length, passes, (index, passed) => {
+                        log.write(`${passed ? "pass" : "fail"}: ${describe(runs[index])}\n`, "stdout")
+                    })
+                    if (index == null) {
+                        log.write(`The oldest and the newest builds behave the same\n`, "stdout")
+                        outputStatus.innerText = "No change found"
+                        return
+                    }
+                    const [before, after] = [runs[index - 1], runs[index]]
+                    log.write(`First build that behaves differently: ${describe(after)}\n`, "stdout")
+                    const link = document.createElement("a")
+                    link.href = `https://github.com/${repo}/compare/${before["head_commit"]["id"]}...${after["head_commit"]["id"]}`
+                    link.target = "_blank"
+                    link.innerText = `Changes between ${before["head_commit"]["id"].slice(0, 7)} and ${after["head_commit"]["id"].slice(0, 7)}`
+                    outputPane.appendChild(link)
+                    outputStatus.innerText = `Changed in ${after["head_commit"]["id"].slice(0, 7)}`
+                } catch (error) {
+                    log.write(`Bisect failed: ${error.message}\n`, "stderr")
+                    if (error instanceof GitHubAPIError && error.isUnauthorized()) {
+                        const configModal = document.getElementById("modal-config") as HTMLDialogElement
+                        configModal.showModal()
+                    }
+                } finally {
+                    stopBisect = null
+                    setStatus("Ready")
+                }
+            })
+        }
+
+        /// Replaces the active Ruby with another build, keeping the editor as it is
+        const switchRubySource = async (source: RubySource) => {
+            try {
+                let run: any = null
+                const makeNewRubyWorker = await initRubyWorkerClass(source, downloader, setStatus, (loadedRun) => { run = loadedRun })
+                // Keep using the current build until the new one is up, so that a failure leaves it in place
+                const newRunner = await RubyRunner.create(makeNewRubyWorker, reportWorkerError)
+                const previous = runner
+                runner = newRunner
+                rubySource = source
+                knownRunners.delete(previous)
+                knownRunners.add(newRunner)
+                // A run still going on the previous build ends as interrupted rather than hanging
+                previous.dispose().catch((error) => console.warn("Failed to dispose of the previous Ruby", error))
+
+                rememberRubySource(source)
+                setRubySourceInURL(source)
+                sourceMetadataElement.innerHTML = ""
+                renderMetadata(source, run, sourceMetadataElement)
+                await versionPicker.refresh()
+            } catch (error) {
+                console.error(error)
+                setStatus(`Failed to load ${rubySourceLabel(source)}: ${error.message}`)
+                // Select the build still in use again
+                versionPicker.refresh().catch((error) => console.error(error))
+            }
+        }
+        const versionPicker = createVersionPicker(repo, buildCache, () => rubySource, (source) => switchRubySource(source))
+        metadataElement.before(versionPicker.select)
+        versionPicker.refresh()
+        localBuildInput.addEventListener("change", async () => {
+            const file = localBuildInput.files[0]
+            if (file == null) {
+                return
+            }
+            (document.getElementById("modal-config") as HTMLDialogElement).close()
+            await switchRubySource({ type: "file", file })
+            localBuildInput.value = ""
+        })
+
         const run = async () => await runCode(getCode());
 
         buttonRun.addEventListener("click", () => run())
+        buttonMatrix.addEventListener("click", () => runMatrix(getCode()))
+        const bisectDialog = createBisectDialog((settings) => runBisect(getCode(), settings))
+        buttonBisect.addEventListener("click", () => bisectDialog.showModal())
         // Ctrl+Enter to run
         editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => run())
 
@@ -0,0 +1,60 @@
+import { Directory, File } from "@bjorn3/browser_wasi_shim"
+import { installSnapshotSize, restoreInstallSnapshot, takeInstallSnapshot } from "./install-snapshot"
+import { WASIFs, getInodeMetadata } from "./wasi-fs"
+import { expect, test } from "vitest"
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+test("round-trips a file tree", () => {
+    const fs = new WASIFs()
+    fs.mkdirSync("/usr/bin", { recursive: true })
+    fs.mkdirSync("/usr/empty", { recursive: true })
+    fs.writeFileSync("/usr/bin/ruby", bytes("wasm"))
+    fs.writeFileSync("/README", bytes("hello"))
+    const snapshot = takeInstallSnapshot(fs, null)
+    expect(snapshot.directories.map(([path]) => path)).toEqual(["usr", "usr/bin", "usr/empty"])
+    expect(snapshot.files.map(([path]) => path)).toEqual(["usr/bin/ruby", "README"])
+
+    const restored = restoreInstallSnapshot(snapshot)
+    expect(restored.readFileSync("/usr/bin/ruby")).toEqual(bytes("wasm"))
+    expect(restored.readdirSync("/usr/empty")).toEqual([])
+    expect(restored.readFileSync("/README")).toEqual(bytes("hello"))
+})
+
+test("keeps links and metadata", () => {
+    const fs = new WASIFs()
+    const mtime = new Date("2024-12-25T00:00:00Z")
+    fs.mkdirSync("/usr/lib", { recursive: true, mode: 0o755, mtime })
+    fs.writeFileSync("/usr/lib/libruby.so.3.4", bytes("lib"), { mode: 0o644, mtime })
+    fs.symlinkSync("libruby.so.3.4", "/usr/lib/libruby.so")
+    fs.symlinkSync("lib", "/usr/lib64")
+    const snapshot = takeInstallSnapshot(fs, null)
+    expect(snapshot.files.length).toEqual(1)
+
+    const restored = restoreInstallSnapshot(snapshot)
+    const library = restored.readFileSync("/usr/lib/libruby.so.3.4")
+    expect(restored.readFileSync("/usr/lib/libruby.so")).toBe(library)
+    expect(restored.readFileSync("/usr/lib64/libruby.so")).toBe(library)
+    expect(restored.symlinks.get("usr/lib/libruby.so")).toEqual("libruby.so.3.4")
+    const lib = (restored.rootContents.get("usr") as Directory).contents.get("lib") as Directory
+    expect(getInodeMetadata(lib)).toEqual({ mode: 0o755, mtime: mtime.getTime() })
+    expect(getInodeMetadata(lib.contents.get("libruby.so.3.4") as File)).toEqual({ mode: 0o644, mtime: mtime.getTime() })
+})
+
+test("stores only the viewed part of shared buffers", () => {
+    const fs = new WASIFs()
+    fs.writeFileSync("/file", bytes("..abc..").subarray(2, 5))
+    const [, data] = takeInstallSnapshot(fs, null).files[0]
+    expect(data).toEqual(bytes("abc"))
+    expect(data.buffer.byteLength).toEqual(3)
+})
+
+test("size counts the binary again for the compiled module", () => {
+    const fs = new WASIFs()
+    fs.mkdirSync("/usr/local/bin", { recursive: true })
+    fs.writeFileSync("/usr/local/bin/ruby", bytes("wasm"))
+    fs.writeFileSync("/README", bytes("hello"))
+    const snapshot = takeInstallSnapshot(fs, null)
+    expect(installSnapshotSize(snapshot)).toEqual(9)
+    expect(installSnapshotSize({ ...snapshot, module: {} as WebAssembly.Module })).toEqual(13)
+})
@@ -0,0 +1,166 @@
+import { Directory, File, Inode } from "@bjorn3/browser_wasi_shim"
+import { openDatabase, requestToPromise } from "./idb"
+import { InodeMetadata, WASIFs, getInodeMetadata, setInodeMetadata } from "./wasi-fs"
+
+/// Bumped whenever the shape of InstallSnapshot changes, so that older snapshots are ignored
+const SNAPSHOT_FORMAT = 2
+
+/**
+ * An extracted Ruby installation and its compiled binary, to skip decompression and compilation on warm starts
+ */
+export type InstallSnapshot = {
+    format: number,
+    /// The compiled ruby binary, or null if the browser cannot store modules in IndexedDB
+    module: WebAssembly.Module | null,
+    /// Paths of all directories, parents before their children
+    directories: [string, InodeMetadata | undefined][],
+    /// Paths and contents of all regular files
+    files: [string, Uint8Array, InodeMetadata | undefined][],
+    /// Paths that name an inode already recorded under another path (i.e. links), and that path
+    aliases: [string, string][],
+    /// Targets of symbolic links keyed by the path of the link
+    symlinks: [string, string][],
+}
+
+/// Records the file tree of the given file system
+export function takeInstallSnapshot(fs: WASIFs, module: WebAssembly.Module | null): InstallSnapshot {
+    const snapshot: InstallSnapshot = {
+        format: SNAPSHOT_FORMAT, module, directories: [], files: [], aliases: [], symlinks: Array.from(fs.symlinks),
+    }
+    const seen = new Map<Inode, string>()
+    const walk = (contents: Map<string, Inode>, prefix: string) => {
+        for (const [name, entry] of contents) {
+            const path = `${prefix}${name}`
+            if (seen.has(entry)) {
+                snapshot.aliases.push([path, seen.get(entry)])
+                continue
+            }
+            seen.set(entry, path)
+            if (entry instanceof Directory) {
+                snapshot.directories.push([path, getInodeMetadata(entry)])
+                walk(entry.contents, `${path}/`)
+            } else if (entry instanceof File) {
+                let data = entry.data
+                if (data.byteOffset !== 0 || data.byteLength !== data.buffer.byteLength) {
+                    // Don't store the rest of a shared buffer (e.g. Node's Buffer pool).
+                    // Buffer#slice would share the memory, so copy with the constructor.
+                    data = new Uint8Array(data)
+                }
+                snapshot.files.push([path, data, getInodeMetadata(entry)])
+            }
+        }
+    }
+    walk(fs.rootContents, "")
+    return snapshot
+}
+
+/// Rebuilds the file system recorded by takeInstallSnapshot
+export function restoreInstallSnapshot(snapshot: InstallSnapshot): WASIFs {
+    const root = new Directory(new Map())
+    const inodes = new Map<string, Inode>([["", root]])
+    const place = (path: string, inode: Inode) => {
+        const slash = path.lastIndexOf("/")
+        const parent = inodes.get(slash < 0 ? "" : path.slice(0, slash)) as Directory
+        parent.contents.set(path.slice(slash + 1), inode)
+        inodes.set(path, inode)
+    }
+    for (const [path, metadata] of snapshot.directories) {
+        const directory = new Directory(new Map())
+        if (metadata != null) {
+            setInodeMetadata(directory, metadata)
+        }
+        place(path, directory)
+    }
+    for (const [path, data, metadata] of snapshot.files) {
+        const file = new File([])
+        // The constructor would copy the data, but the snapshot is not used elsewhere
+        file.data = data
+        if (metadata != null) {
+            setInodeMetadata(file, metadata)
+        }
+        place(path, file)
+    }
+    for (const [path, original] of snapshot.aliases) {
+        place(path, inodes.get(original))
+    }
+    const fs = new WASIFs()
+    fs.rootContents = root.contents
+    fs.symlinks = new Map(snapshot.symlinks)
+    return fs
+}
+
+/// Roughly how many bytes a snapshot takes in storage. Browsers do not tell the size of a compiled
+/// module, so it is taken to be that of the binary it was compiled from.
+export function installSnapshotSize(snapshot: InstallSnapshot): number {
+    let size = 0
+    for (const [path, data] of snapshot.files) {
+        size += data.byteLength
+        if (snapshot.module != null && path === "usr/local/bin/ruby") {
+            size += data.byteLength
+        }
+    }
+    return size
+}
+
+/**
+ * Persists install snapshots in IndexedDB keyed by the cache key of the artifact they were extracted from,
+ * along with their sizes so that the build cache can count them without loading them
+ */
+export class InstallSnapshotStore {
+    private static storeName = "snapshots"
+    private static sizeStoreName = "sizes"
+
+    private constructor(private db: IDBDatabase) { }
+
+    static async open(): Promise<InstallSnapshotStore> {
+        const db = await openDatabase("play-ruby-install-snapshots", 2, (db) => {
+            // Drop snapshots stored before their sizes were recorded, which would escape the quota.
+            // They are taken again on the next load of their build.
+            for (const name of Array.from(db.objectStoreNames)) {
+                db.deleteObjectStore(name)
+            }
+            db.createObjectStore(InstallSnapshotStore.storeName)
+            db.createObjectStore(InstallSnapshotStore.sizeStoreName)
+        })
+        return new InstallSnapshotStore(db)
+    }
+
+    private objectStore(mode: IDBTransactionMode) {
+        return this.db.transaction(InstallSnapshotStore.storeName, mode).objectStore(InstallSnapshotStore.storeName)
+    }
+
+    async get(key: string): Promise<InstallSnapshot | undefined> {
+        const snapshot: InstallSnapshot | undefined = await requestToPromise(this.objectStore("readonly").get(key))
+        return snapshot?.format === SNAPSHOT_FORMAT ? snapshot : undefined
+    }
+
+    private sizeStore(mode: IDBTransactionMode) {
+        return this.db.transaction(InstallSnapshotStore.sizeStoreName, mode).objectStore(InstallSnapshotStore.sizeStoreName)
+    }
+
+    async put(key: string, snapshot: InstallSnapshot) {
+        try {
+            await requestToPromise(this.objectStore("readwrite").put(snapshot, key))
+        } catch (error) {
+            if (snapshot.module == null || !(error instanceof DOMException && error.name === "DataCloneError")) {
+                throw error
+            }
+            // Some browsers refuse to serialize modules. The file tree alone still saves the decompression.
+            snapshot = { ...snapshot, module: null }
+            await requestToPromise(this.objectStore("readwrite").put(snapshot, key))
+        }
+        await requestToPromise(this.sizeStore("readwrite").put(installSnapshotSize(snapshot), key))
+    }
+
+    /// The sizes of the stored snapshots in bytes, keyed by their keys
+    async sizes(): Promise<Map<string, number>> {
+        const store = this.sizeStore("readonly")
+        const [keys, sizes] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())])
+        return new Map(keys.map((key, i) => [String(key), sizes[i]]))
+    }
+
+    async delete(key: string) {
+        await requestToPromise(this.objectStore("readwrite").delete(key))
+        await requestToPromise(this.sizeStore("readwrite").delete(key))
+    }
+}
@@ -0,0 +1,99 @@
+import { BlobWriter, Uint8ArrayReader, ZipWriter } from "@zip.js/zip.js"
+import type { OutputFile } from "./ruby.worker"
+import { formatSize } from "./format"
+
+type OutputFileSource = {
+    listChangedFiles(): OutputFile[] | Promise<OutputFile[]>
+    readFile(path: string): Uint8Array | Promise<Uint8Array>
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = filename
+    a.click()
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+function basename(path: string) {
+    return path.split("/").pop()
+}
+
+/**
+ * Lists files written by the last run and lets the user view or download them
+ */
+export class OutputFilesPanel {
+    private element: HTMLDetailsElement
+    private summary: HTMLElement
+    private list: HTMLUListElement
+    private viewer: HTMLPreElement
+
+    constructor(container: HTMLElement) {
+        this.element = document.createElement("details")
+        this.element.id = "output-files"
+        this.element.classList.add("plrb-output-files")
+        this.summary = document.createElement("summary")
+        this.list = document.createElement("ul")
+        this.list.classList.add("plrb-output-files-list")
+        this.viewer = document.createElement("pre")
+        this.viewer.classList.add("plrb-output-files-viewer")
+        this.element.append(this.summary, this.list, this.viewer)
+        container.appendChild(this.element)
+        this.clear()
+    }
+
+    clear() {
+        this.summary.innerText = "Files"
+        this.list.innerHTML = ""
+        this.viewer.innerText = ""
+        this.viewer.hidden = true
+        this.element.hidden = true
+    }
+
+    async update(source: OutputFileSource) {
+        this.clear()
+        const files = await source.listChangedFiles()
+        if (files.length === 0) {
+            return
+        }
+        this.element.hidden = false
+        this.summary.innerText = `Files (${files.length})`
+
+        const downloadAll = document.createElement("button")
+        downloadAll.innerText = "Download all (.zip)"
+        downloadAll.addEventListener("click", async () => {
+            const zipWriter = new ZipWriter(new BlobWriter("application/zip"))
+            for (const file of files) {
+                await zipWriter.add(file.path, new Uint8ArrayReader(await source.readFile(file.path)))
+            }
+            downloadBlob(await zipWriter.close(), "files.zip")
+        })
+        const header = document.createElement("li")
+        header.appendChild(downloadAll)
+        this.list.appendChild(header)
+
+        for (const file of files) {
+            const item = document.createElement("li")
+            const name = document.createElement("span")
+            name.innerText = `${file.path} (${formatSize(file.size)})`
+            const view = document.createElement("button")
+            view.innerText = "View"
+            view.addEventListener("click", async () => {
+                const data = await source.readFile(file.path)
+                this.viewer.innerText = new TextDecoder().decode(data)
+                this.viewer.hidden = false
+            })
+            const download = document.createElement("button")
+            download.innerText = "Download"
+            download.addEventListener("click", async () => {
+                const data = await source.readFile(file.path)
+                // Blob takes a plain ArrayBuffer, which file data need not view
+                downloadBlob(new Blob([new Uint8Array(data)]), basename(file.path))
+            })
+            item.append(name, view, download)
+            this.list.appendChild(item)
+        }
+    }
+}
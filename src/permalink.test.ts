@@ -0,0 +1,22 @@
+import { compressToString, decompressFromString } from "./permalink"
+import { expect, test } from "vitest"
+
+test("roundtrip", async () => {
+    const text = `puts "こんにちは"
+#--- lib/foo.rb
+def foo = 42
+`
+    expect(await decompressFromString(await compressToString(text))).toEqual(text)
+})
+
+test("url-safe alphabet", async () => {
+    const text = Array.from({ length: 2000 }, (_, i) => String.fromCharCode(i % 256)).join("")
+    const encoded = await compressToString(text)
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]*$/)
+    expect(await decompressFromString(encoded)).toEqual(text)
+})
+
+test("shorter than raw text for repetitive code", async () => {
+    const text = "puts 1 + 2\n".repeat(100)
+    expect((await compressToString(text)).length).toBeLessThan(encodeURIComponent(text).length)
+})
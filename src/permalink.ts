@@ -0,0 +1,36 @@
+/// Compact encoding of the editor contents for sharing them in a URL.
+/// The text is compressed with deflate and encoded with base64url,
+/// which does not need to be escaped in a URL.
+
+async function pipeThrough(data: Uint8Array, transform: { readable: ReadableStream, writable: WritableStream }): Promise<Uint8Array> {
+    // Copy into a plain ArrayBuffer, which is what Blob takes, as `data` may view a SharedArrayBuffer
+    const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(transform)
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64URL(bytes: Uint8Array): string {
+    let binary = ""
+    // Avoid exceeding the maximum number of arguments for large inputs
+    const chunkSize = 0x8000
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64URL(encoded: string): Uint8Array {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function compressToString(text: string): Promise<string> {
+    const compressed = await pipeThrough(new TextEncoder().encode(text), new CompressionStream("deflate"))
+    return toBase64URL(compressed)
+}
+
+async function decompressFromString(encoded: string): Promise<string> {
+    const decompressed = await pipeThrough(fromBase64URL(encoded), new DecompressionStream("deflate"))
+    return new TextDecoder().decode(decompressed)
+}
+
+export { compressToString, decompressFromString }
@@ -0,0 +1,94 @@
+import { findPathReferences, parseRubyDiagnostics, summarizeUncaughtException } from "./ruby-diagnostics"
+import { expect, test } from "vitest"
+
+test("uncaught exception with backtrace", () => {
+    const stderr = `main.rb:2:in 'foo': boom (RuntimeError)
+\tfrom main.rb:4:in '<main>'
+`
+    expect(summarizeUncaughtException(stderr)).toEqual("RuntimeError: boom")
+})
+
+test("namespaced exception class", () => {
+    const stderr = "main.rb:1:in `<main>': oops (Foo::Error)\n"
+    expect(summarizeUncaughtException(stderr)).toEqual("Foo::Error: oops")
+})
+
+test("syntax error", () => {
+    const stderr = `main.rb: --> main.rb
+main.rb:1: syntax errors found (SyntaxError)
+> 1 | def foo(
+    |         ^ unexpected end-of-input
+`
+    expect(summarizeUncaughtException(stderr)).toEqual("SyntaxError: syntax errors found")
+})
+
+test("no exception", () => {
+    expect(summarizeUncaughtException("main.rb:1: warning: possibly useless use of + in void context\n")).toBeNull()
+})
+
+test("diagnostics of an uncaught exception with backtrace", () => {
+    const stderr = `/main.rb:2:in 'foo': boom (RuntimeError)
+\tfrom /main.rb:4:in '<main>'
+`
+    expect(parseRubyDiagnostics(stderr)).toEqual([
+        { severity: "error", path: "main.rb", line: 2, column: null, message: "boom (RuntimeError)" },
+        { severity: "info", path: "main.rb", line: 4, column: null, message: "Called from here: boom (RuntimeError)" },
+    ])
+})
+
+test("diagnostics of warnings", () => {
+    const stderr = "main.rb:1: warning: possibly useless use of + in void context\nhello\n"
+    expect(parseRubyDiagnostics(stderr)).toEqual([
+        { severity: "warning", path: "main.rb", line: 1, column: null, message: "possibly useless use of + in void context" },
+    ])
+})
+
+test("diagnostics of prism syntax errors", () => {
+    const stderr = `main.rb: --> main.rb
+main.rb:1: syntax errors found (SyntaxError)
+> 1 | def foo(
+    |         ^ unexpected end-of-input
+  2 | x = )
+    |     ^ unexpected ')'
+`
+    expect(parseRubyDiagnostics(stderr)).toEqual([
+        { severity: "error", path: "main.rb", line: 1, column: 9, message: "unexpected end-of-input" },
+        { severity: "error", path: "main.rb", line: 2, column: 5, message: "unexpected ')'" },
+    ])
+})
+
+test("diagnostics of parse.y syntax errors", () => {
+    const stderr = "main.rb:3: syntax error, unexpected end-of-input, expecting ')' (SyntaxError)\n"
+    expect(parseRubyDiagnostics(stderr)).toEqual([
+        { severity: "error", path: "main.rb", line: 3, column: null, message: "syntax error, unexpected end-of-input, expecting ')' (SyntaxError)" },
+    ])
+})
+
+test("errors outside of user code are reported at the innermost user frame", () => {
+    const stderr = `/usr/local/lib/ruby/3.4.0/json/common.rb:221:in 'parse': unexpected token (JSON::ParserError)
+\tfrom /usr/local/lib/ruby/3.4.0/json/common.rb:221:in 'JSON.parse'
+\tfrom lib/config.rb:5:in 'load'
+\tfrom main.rb:2:in '<main>'
+/usr/local/lib/ruby/3.4.0/foo.rb:1: warning: ignored
+`
+    const isUserPath = (path: string) => !path.startsWith("usr/")
+    expect(parseRubyDiagnostics(stderr, isUserPath)).toEqual([
+        { severity: "error", path: "lib/config.rb", line: 5, column: null, message: "unexpected token (JSON::ParserError)" },
+        { severity: "info", path: "main.rb", line: 2, column: null, message: "Called from here: unexpected token (JSON::ParserError)" },
+    ])
+})
+
+test("path references in a backtrace", () => {
+    const text = "/main.rb:2:in 'foo': boom (RuntimeError)\n\tfrom lib/foo.rb:12:in 'bar'\n"
+    expect(findPathReferences(text, ["main.rb", "lib/foo.rb"])).toEqual([
+        { index: 0, length: 10, path: "main.rb", line: 2 },
+        { index: 47, length: 13, path: "lib/foo.rb", line: 12 },
+    ])
+})
+
+test("path references to unknown paths are ignored", () => {
+    const text = "/usr/lib/ruby/3.4.0/json.rb:5: warning: x\nsee (main.rb:7) and xmain.rb:8\n"
+    expect(findPathReferences(text, ["main.rb"])).toEqual([
+        { index: 47, length: 9, path: "main.rb", line: 7 },
+    ])
+})
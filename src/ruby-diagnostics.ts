@@ -0,0 +1,132 @@
+/// Matches the last line of Ruby's report of an uncaught exception, e.g.
+/// "main.rb:1:in 'foo': boom (RuntimeError)" or "main.rb: syntax errors found (SyntaxError)"
+const uncaughtExceptionPattern = /^(.+?): (.*) \(([A-Z]\w*(?:::[A-Z]\w*)*)\)$/
+
+/// Extracts a one-line summary like "RuntimeError: boom" of the exception
+/// that terminated a Ruby process from its stderr output.
+/// Returns null if no exception report is found.
+function summarizeUncaughtException(stderr: string): string | null {
+    const lines = stderr.split("\n")
+    // Backtraces and multi-line messages follow the report, so look for the last one
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const match = lines[i].match(uncaughtExceptionPattern)
+        if (match != null) {
+            const [_, _location, message, className] = match
+            return `${className}: ${message}`
+        }
+    }
+    return null
+}
+
+/**
+ * A problem reported by Ruby at a location in a script
+ */
+type RubyDiagnostic = {
+    /// "info" marks the callers of the method that raised
+    severity: "error" | "warning" | "info",
+    /// The path as printed by Ruby, without a leading "/"
+    path: string,
+    /// 1-indexed
+    line: number,
+    /// 1-indexed, or null if Ruby reported only the line
+    column: number | null,
+    message: string,
+}
+
+/// "\tfrom main.rb:4:in '<main>'"
+const backtraceFramePattern = /^\s+from (.+?):(\d+):in /
+/// "main.rb:1: warning: possibly useless use of + in void context"
+const warningPattern = /^(\S.*?):(\d+): warning: (.*)$/
+/// "main.rb:2:in 'foo': boom (RuntimeError)" or "main.rb:1: syntax error, unexpected ..."
+const locatedMessagePattern = /^(\S.*?):(\d+):(?:in [`'].*?':)? ?(.*)$/
+/// A source line quoted by prism, e.g. "> 1 | def foo(" or "  2 | end"
+const prismSourceLinePattern = /^[> ] *(\d+) \| /
+/// The annotation below a quoted line, e.g. "    |         ^ unexpected end-of-input"
+const prismAnnotationPattern = /^ *\| ( *)\^~* ?(.*)$/
+
+/// Parses the errors, warnings and backtraces in Ruby's stderr output, including the
+/// annotated source that prism prints for syntax errors.
+/// Errors raised outside of user code (e.g. in the standard library) are reported at
+/// the innermost frame of the backtrace that is in a path accepted by `isUserPath`,
+/// and everything else outside of user code is left out.
+function parseRubyDiagnostics(stderr: string, isUserPath: (path: string) => boolean = () => true): RubyDiagnostic[] {
+    const diagnostics: RubyDiagnostic[] = []
+    const location = (path: string, line: string) => ({ path: path.replace(/^\//, ""), line: Number(line) })
+    // The last error reported at a location, which the following backtrace and prism annotations belong to
+    let current: { diagnostic: RubyDiagnostic, reported: boolean, annotated: boolean } | null = null
+    let quotedLine: number | null = null
+
+    for (const line of stderr.split("\n")) {
+        let match: RegExpMatchArray | null
+        if ((match = line.match(backtraceFramePattern)) != null) {
+            const frame = location(match[1], match[2])
+            if (current == null || !isUserPath(frame.path)) {
+                continue
+            }
+            if (current.reported) {
+                diagnostics.push({ severity: "info", ...frame, column: null, message: `Called from here: ${current.diagnostic.message}` })
+            } else {
+                diagnostics.push({ ...current.diagnostic, ...frame })
+                current.reported = true
+            }
+        } else if ((match = line.match(prismSourceLinePattern)) != null) {
+            quotedLine = Number(match[1])
+        } else if ((match = line.match(prismAnnotationPattern)) != null) {
+            if (current == null || quotedLine == null || !isUserPath(current.diagnostic.path)) {
+                continue
+            }
+            if (!current.annotated && current.reported) {
+                // The annotations are more precise than the "syntax errors found" headline
+                diagnostics.splice(diagnostics.indexOf(current.diagnostic), 1)
+            }
+            current.annotated = true
+            diagnostics.push({ severity: "error", path: current.diagnostic.path, line: quotedLine, column: match[1].length + 1, message: match[2] })
+        } else if ((match = line.match(warningPattern)) != null) {
+            const warning = location(match[1], match[2])
+            if (isUserPath(warning.path)) {
+                diagnostics.push({ severity: "warning", ...warning, column: null, message: match[3] })
+            }
+        } else if ((match = line.match(locatedMessagePattern)) != null) {
+            const diagnostic: RubyDiagnostic = { severity: "error", ...location(match[1], match[2]), column: null, message: match[3] }
+            const reported = isUserPath(diagnostic.path)
+            if (reported) {
+                diagnostics.push(diagnostic)
+            }
+            current = { diagnostic, reported, annotated: false }
+            quotedLine = null
+        }
+    }
+    return diagnostics
+}
+
+/// "main.rb:3" or "/lib/foo.rb:12", preceded by the start of the text, whitespace, a quote or a parenthesis
+const pathReferencePattern = /(^|[\s'"`(])\/?([^\s:'"`()]+):(\d+)(?!\d)/g
+
+/**
+ * A `path:line` reference in output text, e.g. in a backtrace
+ */
+type PathReference = {
+    /// Offset of the reference in the text, including any leading "/"
+    index: number,
+    length: number,
+    /// The path without a leading "/"
+    path: string,
+    /// 1-indexed
+    line: number,
+}
+
+/// Finds the `path:line` references to the given paths in the text
+function findPathReferences(text: string, paths: string[]): PathReference[] {
+    const references: PathReference[] = []
+    for (const match of text.matchAll(pathReferencePattern)) {
+        const [fullMatch, prefix, path, line] = match
+        if (paths.includes(path)) {
+            const index = match.index + prefix.length
+            references.push({ index, length: fullMatch.length - prefix.length, path, line: Number(line) })
+        }
+    }
+    return references
+}
+
+export { summarizeUncaughtException, parseRubyDiagnostics, findPathReferences }
+export type { RubyDiagnostic, PathReference }
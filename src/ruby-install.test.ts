@@ -0,0 +1,99 @@
+import * as tar from "tar-stream"
+import { Directory, File } from "@bjorn3/browser_wasi_shim"
+import { RubyInstall } from "./ruby-install"
+import { WASIFs, getInodeMetadata } from "./wasi-fs"
+import { expect, test } from "vitest"
+
+async function makeTarball(entries: (tar.Headers & { content?: string })[]): Promise<ReadableStream<Uint8Array>> {
+    const pack = tar.pack()
+    for (const { content, ...header } of entries) {
+        if (content == null) {
+            pack.entry({ type: header.name.endsWith("/") ? "directory" : undefined, ...header })
+        } else {
+            pack.entry(header, content)
+        }
+    }
+    pack.finalize()
+    const chunks: Uint8Array[] = []
+    for await (const chunk of pack) {
+        chunks.push(chunk)
+    }
+    const buffer = Buffer.concat(chunks)
+    // Deliver the tarball in small chunks that split headers and contents
+    return new ReadableStream({
+        start(controller) {
+            for (let offset = 0; offset < buffer.byteLength; offset += 100) {
+                controller.enqueue(buffer.subarray(offset, offset + 100))
+            }
+            controller.close()
+        },
+    })
+}
+
+test("extracts a tarball delivered in chunks", async () => {
+    const fs = new WASIFs()
+    const statuses: string[] = []
+    const installer = new RubyInstall({ stripComponents: 1, setStatus: (status) => statuses.push(status) })
+    const large = "x".repeat(5000)
+    await installer.installTar(fs, await makeTarball([
+        { name: "install/usr/" },
+        { name: "install/usr/local/bin/ruby", content: "wasm" },
+        { name: "install/usr/local/lib/large.rb", content: large },
+    ]))
+    expect(fs.readdirSync("/usr/local")).toEqual(["bin", "lib"])
+    expect(new TextDecoder().decode(fs.readFileSync("/usr/local/bin/ruby"))).toEqual("wasm")
+    expect(new TextDecoder().decode(fs.readFileSync("/usr/local/lib/large.rb"))).toEqual(large)
+    expect(statuses).toContain("Installing... 2 files, 4.9 KiB")
+    expect(statuses[statuses.length - 1]).toEqual("Installed")
+})
+
+test("strips leading directories up to usr automatically", async () => {
+    const fs = new WASIFs()
+    const installer = new RubyInstall({ stripComponents: "auto", setStatus: null })
+    await installer.installTar(fs, await makeTarball([
+        { name: "ruby-3.4-wasm32-unknown-wasip1-full/" },
+        { name: "ruby-3.4-wasm32-unknown-wasip1-full/usr/local/bin/ruby", content: "wasm" },
+    ]))
+    expect(Array.from(fs.listFiles().keys())).toEqual(["usr/local/bin/ruby"])
+})
+
+test("creates links after their targets", async () => {
+    const fs = new WASIFs()
+    const installer = new RubyInstall({ stripComponents: 0, setStatus: null })
+    await installer.installTar(fs, await makeTarball([
+        // A link to a link that comes later in the archive
+        { name: "usr/local/bin/irb", type: "symlink", linkname: "ruby" },
+        { name: "usr/local/bin/ruby", type: "symlink", linkname: "../lib/ruby-3.4" },
+        { name: "usr/local/lib/ruby-3.4", content: "wasm" },
+        { name: "usr/local/lib/hardlink", type: "link", linkname: "usr/local/lib/ruby-3.4" },
+        { name: "usr/local/lib/current", type: "symlink", linkname: "/usr/local/bin" },
+        { name: "usr/local/lib/dangling", type: "symlink", linkname: "missing" },
+    ]))
+    const target = fs.readFileSync("/usr/local/lib/ruby-3.4")
+    expect(fs.readFileSync("/usr/local/bin/ruby")).toBe(target)
+    expect(fs.readFileSync("/usr/local/bin/irb")).toBe(target)
+    expect(fs.readFileSync("/usr/local/lib/hardlink")).toBe(target)
+    expect(fs.readdirSync("/usr/local/lib/current").sort()).toEqual(["irb", "ruby"])
+    expect(fs.symlinks.get("usr/local/bin/ruby")).toEqual("../lib/ruby-3.4")
+    expect(fs.readdirSync("/usr/local/lib")).not.toContain("dangling")
+})
+
+test("keeps modes and modification times", async () => {
+    const fs = new WASIFs()
+    const installer = new RubyInstall({ stripComponents: 0, setStatus: null })
+    const mtime = new Date("2024-12-25T00:00:00Z")
+    await installer.installTar(fs, await makeTarball([
+        { name: "usr/", mode: 0o755, mtime },
+        { name: "usr/ruby", mode: 0o755, mtime, content: "wasm" },
+    ]))
+    const usr = fs.rootContents.get("usr") as Directory
+    const ruby = usr.contents.get("ruby") as File
+    expect(getInodeMetadata(ruby)).toEqual({ mode: 0o755, mtime: mtime.getTime() })
+    expect(getInodeMetadata(usr)).toEqual({ mode: 0o755, mtime: mtime.getTime() })
+})
+
+test("rejects a corrupt gzipped tarball", async () => {
+    const installer = new RubyInstall({ stripComponents: 0, setStatus: null })
+    const archive = new Uint8Array([0x1f, 0x8b, 0x08, 0x00, 0xde, 0xad, 0xbe, 0xef])
+    await expect(installer.installArchive(new WASIFs(), archive.buffer)).rejects.toThrow()
+})
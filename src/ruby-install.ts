@@ -1,20 +1,47 @@
 import { ZipReader } from "@zip.js/zip.js"
 import * as tar from "tar-stream"
+import { formatSize } from "./format"
 
+/**
+ * The "node:fs"-like file system to install into.
+ * `mkdirSync` and `writeFileSync` also take the `mode` and `mtime` of the entry in their options.
+ */
 export type IFs = {
     mkdirSync(path: string, options?: any): void
     writeFileSync(path: string, data: any, options?: any): void
+    /// Creates a symbolic link at `path` to `target`, which is relative to the link's directory unless absolute
+    symlinkSync(target: string, path: string): void
+    /// Creates a hard link at `newPath` to the file at `existingPath`
+    linkSync(existingPath: string, newPath: string): void
 }
 
+/// A link entry, which is created after the rest of the archive since its target may come later
+type PendingLink = { type: "symlink" | "link", path: string, target: string }
+
 export class RubyInstall {
-    private stripComponents: number
+    /// "auto" strips the leading components up to the "usr" directory
+    private stripComponents: number | "auto"
     private setStatus: ((status: string) => void)
 
-    constructor(options: { stripComponents: number | null, setStatus: ((status: string) => void) | null }) {
+    constructor(options: { stripComponents: number | "auto" | null, setStatus: ((status: string) => void) | null }) {
         this.stripComponents = options.stripComponents ?? 0
         this.setStatus = options.setStatus ?? (() => { })
     }
 
+    /**
+     * Installs from either a zip containing install.tar.gz (like GitHub Actions artifacts) or install.tar.gz itself
+     */
+    async installArchive(fs: IFs, archive: ArrayBuffer) {
+        const magic = new Uint8Array(archive, 0, Math.min(archive.byteLength, 4))
+        if (magic[0] === 0x50 && magic[1] === 0x4b && magic[2] === 0x03 && magic[3] === 0x04) {
+            await this.installZip(fs, new Response(archive))
+        } else if (magic[0] === 0x1f && magic[1] === 0x8b) {
+            await this.installTarGz(fs, (writable) => new Response(archive).body.pipeTo(writable))
+        } else {
+            throw new Error("Unknown archive format: expected a zip or a gzipped tarball")
+        }
+    }
+
     async installZip(fs: IFs, zipResponse: Response) {
         const zipReader = new ZipReader(zipResponse.body);
         const entries = await zipReader.getEntries()
@@ -25,56 +52,139 @@ export class RubyInstall {
         await this.installTarGz(fs, (writable) => installTarGz.getData(writable))
     }
 
-    async installTarGz(fs: IFs, pipe: (writable: WritableStream) => void) {
+    /// `pipe` writes the compressed archive to the given stream, and its failure fails the install
+    async installTarGz(fs: IFs, pipe: (writable: WritableStream) => Promise<unknown>) {
         const gzipDecompress = new DecompressionStream("gzip")
-        pipe(gzipDecompress.writable)
-        await this.installTar(fs, gzipDecompress.readable)
+        // Wait for both sides so that an error on either of them is reported rather than left unhandled
+        await Promise.all([
+            pipe(gzipDecompress.writable),
+            this.installTar(fs, gzipDecompress.readable),
+        ])
     }
 
-    async installTar(fs: IFs, tarStream: ReadableStream) {
+    /**
+     * Extracts a tarball chunk by chunk, so that only the extracted files are held in memory
+     */
+    async installTar(fs: IFs, tarStream: ReadableStream<Uint8Array>) {
         const tarExtract = tar.extract()
-
-        this.setStatus("Downloading, unzipping, and untarring...")
-        // TODO: Figure out proper way to bridge Node.js's stream and Web Streams API
-        const buffer = await new Response(tarStream).arrayBuffer()
-        tarExtract.write(Buffer.from(buffer))
-        tarExtract.end()
+        const reader = tarStream.getReader()
+        // Feed the tarball while the entries are consumed below, pausing whenever the extractor is full
+        const feeding = (async () => {
+            try {
+                while (true) {
+                    const { done, value } = await reader.read()
+                    if (done) {
+                        break
+                    }
+                    if (!tarExtract.write(Buffer.from(value.buffer, value.byteOffset, value.byteLength))) {
+                        await new Promise((resolve) => tarExtract.once("drain", resolve))
+                    }
+                }
+                tarExtract.end()
+            } catch (error) {
+                tarExtract.destroy(error)
+            }
+        })()
 
         this.setStatus("Installing...")
+        const progress = { files: 0, bytes: 0 }
+        // Reporting every file would flood the main thread with messages
+        let lastReport = 0
+        const reportProgress = (force: boolean) => {
+            const now = Date.now()
+            if (force || now - lastReport >= 100) {
+                lastReport = now
+                this.setStatus(`Installing... ${progress.files} files, ${formatSize(progress.bytes)}`)
+            }
+        }
 
-        const dataWorks = []
-        for await (const entry of tarExtract) {
-            const header = entry.header;
-            let path = header.name
-            if (this.stripComponents > 0) {
-                const parts = path.split("/")
-                path = parts.slice(this.stripComponents).join("/")
+        let stripComponents = this.stripComponents
+        const strip = (path: string) => {
+            if (typeof stripComponents === "number" && stripComponents > 0) {
+                return path.split("/").slice(stripComponents).join("/")
             }
+            return path
+        }
+        const links: PendingLink[] = []
+        try {
+            for await (const entry of tarExtract) {
+                const header = entry.header;
+                let path = header.name
+                if (stripComponents === "auto") {
+                    const usrIndex = path.split("/").indexOf("usr")
+                    if (usrIndex >= 0) {
+                        stripComponents = usrIndex
+                    } else if (header.type === "directory") {
+                        // Leading directories like "ruby-3.4-wasm32-unknown-wasip1-full/"
+                        entry.resume()
+                        continue
+                    }
+                }
+                path = strip(path)
+                const metadata = { mode: header.mode, mtime: header.mtime }
 
-            if (header.type === "directory") {
-                fs.mkdirSync(path, { recursive: true })
-            } else if (header.type === "file") {
-                const dataWork = new Promise<void>((resolve, reject) => {
-                    const chunks: Uint8Array[] = []
-                    entry.on("data", (chunk) => {
-                        chunks.push(chunk)
-                    })
-                    entry.on("end", () => {
-                        const data = Buffer.concat(chunks)
-                        fs.writeFileSync(path, data)
-                        resolve()
-                    })
-                    entry.on("error", (err) => {
-                        reject(err)
-                    })
-                })
-                dataWorks.push(dataWork)
-            } else {
-                throw new Error(`Unknown entry type ${header.type}`)
+                if (header.type === "directory") {
+                    fs.mkdirSync(path, { recursive: true, ...metadata })
+                    entry.resume()
+                } else if (header.type === "file") {
+                    // Copy the chunks straight into a buffer of the final size
+                    const data = new Uint8Array(header.size)
+                    let offset = 0
+                    for await (const chunk of entry) {
+                        data.set(chunk, offset)
+                        offset += chunk.byteLength
+                        progress.bytes += chunk.byteLength
+                    }
+                    fs.writeFileSync(path, data, metadata)
+                    progress.files++
+                    reportProgress(false)
+                } else if (header.type === "symlink") {
+                    links.push({ type: "symlink", path, target: header.linkname })
+                    entry.resume()
+                } else if (header.type === "link") {
+                    // Hard links name their target by its path in the archive
+                    links.push({ type: "link", path, target: strip(header.linkname) })
+                    entry.resume()
+                } else {
+                    throw new Error(`Unknown entry type ${header.type}`)
+                }
             }
-            entry.resume()
+        } catch (error) {
+            await reader.cancel(error).catch(() => { })
+            throw error
         }
-        await Promise.all(dataWorks)
+        await feeding
+        this.installLinks(fs, links)
+        reportProgress(true)
         this.setStatus("Installed")
     }
+
+    private installLinks(fs: IFs, links: PendingLink[]) {
+        // Links may point to other links, so retry until no more can be created
+        let pending = links
+        while (pending.length > 0) {
+            const failed = tryInstallLinks(fs, pending)
+            if (failed.length === pending.length) {
+                console.warn(`Skipping dangling links: ${failed.map((link) => `${link.path} -> ${link.target}`).join(", ")}`)
+                break
+            }
+            pending = failed
+        }
+    }
+}
+
+/// Returns the links that could not be created because their target does not exist (yet)
+function tryInstallLinks(fs: IFs, links: PendingLink[]): PendingLink[] {
+    return links.filter((link) => {
+        try {
+            if (link.type === "symlink") {
+                fs.symlinkSync(link.target, link.path)
+            } else {
+                fs.linkSync(link.target, link.path)
+            }
+            return false
+        } catch (error) {
+            return true
+        }
+    })
 }
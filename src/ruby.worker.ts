@@ -1,135 +1,27 @@
-import { Directory, File, Inode, OpenFile, PreopenDirectory, WASI, wasi } from "@bjorn3/browser_wasi_shim"
+import { File, OpenFile, PreopenDirectory, WASI } from "@bjorn3/browser_wasi_shim"
 import * as Comlink from "comlink"
-import { IFs, RubyInstall } from "./ruby-install"
+import { RubyInstall } from "./ruby-install"
+import { WASIFs, baseFileData } from "./wasi-fs"
 import type { Options } from "./index"
-
-
-type IDir = Pick<Directory, "get_entry_for_path" | "create_entry_for_path" | "contents">;
-
-class WASIFs implements IFs {
-    public rootContents: Map<string, Inode> = new Map()
-    constructor() { }
-
-    private _getRoot(): IDir {
-        return {
-            contents: this.rootContents,
-            get_entry_for_path: (path) => {
-                if (path.parts.length === 0) {
-                    return { ret: wasi.ERRNO_NOTSUP, entry: null }
-                }
-                let entry = this.rootContents.get(path.parts[0])
-                if (entry == null) {
-                    return { ret: wasi.ERRNO_NOENT, entry: null }
-                }
-                for (let i = 1; i < path.parts.length; i++) {
-                    if (entry instanceof Directory) {
-                        entry = entry.contents.get(path.parts[i])
-                        if (entry == null) {
-                            return { ret: wasi.ERRNO_NOENT, entry: null }
-                        }
-                    } else {
-                        return { ret: wasi.ERRNO_NOTDIR, entry: null }
-                    }
-                }
-                return { ret: wasi.ERRNO_SUCCESS, entry }
-            },
-            create_entry_for_path: (path, is_dir: boolean) => {
-                if (is_dir) {
-                    const dir = new Directory(new Map())
-                    this.rootContents.set(path, dir)
-                    return { ret: wasi.ERRNO_SUCCESS, entry: dir }
-                } else {
-                    const file = new File([])
-                    this.rootContents.set(path, file)
-                    return { ret: wasi.ERRNO_SUCCESS, entry: file }
-                }
-            }
-        }
-    }
-
-    private _getDirectoryAtPath(path: string[]): IDir {
-        let dir = this._getRoot()
-        for (const part of path) {
-            const entry = dir.contents.get(part)
-            if (entry == null) {
-                const { entry: newEntry } = dir.create_entry_for_path(part, true)
-                dir = newEntry as Directory
-            } else if (entry instanceof Directory) {
-                dir = entry
-            } else {
-                throw new Error(`ENOTDIR: not a directory, open '${path.join("/")}'`)
-            }
-        }
-        return dir
-    }
-
-    private _splitPath(path: string): string[] {
-        const parts = path.split("/")
-        // Remove empty parts, meaning that "/usr//local" becomes ["", "usr", "", "local"]
-        // and then remove "." because:
-        // - Our cwd is always "/"
-        // - "." does not change the path
-        return parts.filter((part) => part !== "" && part !== ".")
-    }
-
-    /// This is a shallow clone, so the contents of directories under the root are not cloned
-    shallowClone(): WASIFs {
-        const fs = new WASIFs()
-        fs.rootContents = new Map(this.rootContents)
-        return fs
-    }
-
-    // "node:fs"-like APIs
-
-    mkdirSync(path: string, options?: any): void {
-        const parts = this._splitPath(path)
-        const recursive = options?.recursive ?? false
-
-        let current = this._getRoot()
-
-        for (const part of parts) {
-            if (part === "") {
-                continue
-            }
-            const entry = current.contents.get(part)
-            if (entry == null) {
-                if (recursive) {
-                    const { entry: newEntry } = current.create_entry_for_path(part, true)
-                    current = newEntry as Directory
-                } else {
-                    throw new Error(`ENOENT: no such file or directory, mkdir '${path}'`)
-                }
-            } else if (entry instanceof Directory) {
-                current = entry
-            } else {
-                throw new Error(`EEXIST: file already exists, mkdir '${path}'`)
-            }
-        }
-    }
-
-    writeFileSync(path: string, data: any, options?: any): void {
-        const parts = this._splitPath(path)
-        const dir = this._getDirectoryAtPath(parts.slice(0, parts.length - 1))
-        const { entry } = dir.create_entry_for_path(parts[parts.length - 1], false)
-        const createdFile = entry as File
-        createdFile.data = data
-    }
-
-    readFileSync(path: string, options?: any): any {
-        const parts = this._splitPath(path)
-        const dir = this._getDirectoryAtPath(parts.slice(0, parts.length - 1))
-        const file = dir.contents.get(parts[parts.length - 1]) as File
-        if (file == null) {
-            throw new Error(`ENOENT: no such file or directory, open '${path}'`)
-        }
-        return file.data
-    }
-
-    readdirSync(path: string, options?: any): string[] {
-        const parts = this._splitPath(path)
-        const dir = this._getDirectoryAtPath(parts)
-        return Array.from(dir.contents.keys())
-    }
+import { summarizeUncaughtException } from "./ruby-diagnostics"
+import { SYNTAX_DIFF_SEPARATOR } from "./syntax-tree"
+import { InstallSnapshotStore, restoreInstallSnapshot, takeInstallSnapshot } from "./install-snapshot"
+
+
+export type OutputStream = "stdout" | "stderr"
+
+/**
+ * How a Ruby process ended
+ */
+export type RunResult = {
+    /// The exit status, or null if the process did not exit normally
+    exitCode: number | null,
+    /// Wall-clock time of the run in milliseconds
+    duration: number,
+    /// Whether the run was interrupted before it finished
+    killed: boolean,
+    /// A one-line summary of the uncaught exception or crash that ended the process, if any
+    exception: string | null,
 }
 
 const consolePrinter = (log: (fd: number, str: string) => void) => {
@@ -191,23 +83,76 @@ const consolePrinter = (log: (fd: number, str: string) => void) => {
 };
 
 
+/**
+ * A file created or changed by a run
+ */
+export type OutputFile = {
+    /// Path relative to the root directory
+    path: string,
+    size: number,
+}
+
+/// Whether two buffers hold the same bytes
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a === b) {
+        return true
+    }
+    if (a.byteLength !== b.byteLength) {
+        return false
+    }
+    for (let i = 0; i < a.byteLength; i++) {
+        if (a[i] !== b[i]) {
+            return false
+        }
+    }
+    return true
+}
+
 export class RubyWorker {
     module: WebAssembly.Module;
+    /// The file system of the last run, and copies of the code files it started with
+    private lastRun: { fs: WASIFs, snapshot: Map<string, Uint8Array> } | null = null
 
     constructor(module: WebAssembly.Module, private fs: WASIFs) {
         this.module = module
     }
 
-    static async create(zipBuffer: ArrayBuffer, stripComponents: number, setStatus: (message: string) => void): Promise<RubyWorker> {
+    /**
+     * @param snapshotKey Identifies the archive to reuse the install extracted from it by a previous page load.
+     *   Null for archives that may change under the same name, e.g. local files.
+     */
+    static async create(archiveBuffer: ArrayBuffer, stripComponents: number | "auto", setStatus: (message: string) => void, snapshotKey: string | null = null): Promise<RubyWorker> {
         setStatus("Loading...")
+        let snapshots: InstallSnapshotStore | null = null
+        if (snapshotKey != null) {
+            try {
+                snapshots = await InstallSnapshotStore.open()
+                const snapshot = await snapshots.get(snapshotKey)
+                if (snapshot != null) {
+                    const fs = restoreInstallSnapshot(snapshot)
+                    const rubyModule = snapshot.module ?? await WebAssembly.compile(fs.readFileSync("/usr/local/bin/ruby"))
+                    setStatus("Ready")
+                    return Comlink.proxy(new RubyWorker(rubyModule, fs))
+                }
+            } catch (error) {
+                console.warn("Ignoring the install snapshot", error)
+            }
+        }
+
         const fs = new WASIFs()
         const installer = new RubyInstall({ stripComponents, setStatus })
-        await installer.installZip(fs, new Response(zipBuffer))
+        await installer.installArchive(fs, archiveBuffer)
         const rubyModuleEntry = fs.readFileSync("/usr/local/bin/ruby")
-        const rubyModule = WebAssembly.compile(rubyModuleEntry as Uint8Array)
+        const rubyModule = await WebAssembly.compile(rubyModuleEntry)
+        if (snapshots != null) {
+            // Take the snapshot before any run can change the install
+            snapshots.put(snapshotKey, takeInstallSnapshot(fs, rubyModule)).catch((error) => {
+                console.warn("Failed to store the install snapshot", error)
+            })
+        }
         setStatus("Ready")
 
-        return Comlink.proxy(new RubyWorker(await rubyModule, fs))
+        return Comlink.proxy(new RubyWorker(rubyModule, fs))
     }
 
     private _rubyVersion(): string {
@@ -233,7 +178,7 @@ export class RubyWorker {
         return "3.3.0"
     }
 
-    async run(code: { [path: string]: string }, mainScriptPath: string, action: string, options: Options, log: (message: string) => void) {
+    async run(code: { [path: string]: string | Uint8Array }, mainScriptPath: string, stdin: string, action: string, options: Options, log: (stream: OutputStream, message: string) => void): Promise<RunResult> {
         const extraArgs: string[] = options.arguments
         switch (action) {
             case "eval": break
@@ -255,26 +200,73 @@ export class RubyWorker {
                 extraArgs.push("--dump=parsetree");
                 break
             }
+            case "syntax-diff": {
+                // Both dumps of the same code, separated so that the page can tell them apart
+                const parsey = await this.run(code, mainScriptPath, stdin, "syntax", { ...options, arguments: [...options.arguments] }, log)
+                log("stdout", SYNTAX_DIFF_SEPARATOR)
+                const prism = await this.run(code, mainScriptPath, stdin, "syntax+prism", { ...options, arguments: [...options.arguments] }, log)
+                return {
+                    exitCode: parsey.exitCode === 0 ? prism.exitCode : parsey.exitCode,
+                    duration: parsey.duration + prism.duration,
+                    killed: false,
+                    exception: parsey.exception ?? prism.exception,
+                }
+            }
             default: throw new Error(`Unknown action: ${action}`)
         }
 
-        // Build a fresh file system by merging given code files and the Ruby installation
-        const codeFs = this.fs.shallowClone()
+        const codeFs = this._layerCode(code)
+        // The shim writes into file data in place, so keep copies to compare with
+        const snapshot = new Map<string, Uint8Array>()
+        for (const [path, file] of codeFs.listFiles({ ownOnly: true })) {
+            snapshot.set(path, file.data.slice())
+        }
+        this.lastRun = { fs: codeFs, snapshot }
+
+        return await this._execute(codeFs, extraArgs.concat([mainScriptPath]), options.env, stdin, log)
+    }
+
+    /**
+     * Compiles the given Ruby files without running them
+     * @returns What Ruby reports on stderr, i.e. syntax errors and parse-time warnings
+     */
+    async checkSyntax(code: { [path: string]: string | Uint8Array }, paths: string[]): Promise<string> {
+        const script = "$VERBOSE = true; ARGV.each { |path| begin; RubyVM::InstructionSequence.compile_file(path); rescue SyntaxError => e; $stderr.puts e.message; end }"
+        let stderr = ""
+        await this._execute(this._layerCode(code), ["-e", script, ...paths], {}, "", (stream, message) => {
+            if (stream === "stderr") {
+                stderr += message
+            }
+        })
+        return stderr
+    }
+
+    /// Builds a fresh file system by layering the given code files over the pristine Ruby installation
+    private _layerCode(code: { [path: string]: string | Uint8Array }): WASIFs {
+        const codeFs = this.fs.overlay()
         const textEncoder = new TextEncoder()
         for (const path in code) {
-            codeFs.writeFileSync(path, textEncoder.encode(code[path]))
+            const content = code[path]
+            if (path.endsWith("/")) {
+                // A directory, possibly empty
+                codeFs.mkdirSync(path, { recursive: true })
+            } else {
+                codeFs.writeFileSync(path, typeof content === "string" ? textEncoder.encode(content) : content)
+            }
         }
-        const rootContents = codeFs.rootContents
+        return codeFs
+    }
 
-        // Run the Ruby module with the given code
+    /// Runs the Ruby module on the given file system with the given arguments
+    private async _execute(fs: WASIFs, args: string[], env: Record<string, string>, stdin: string, log: (stream: OutputStream, message: string) => void): Promise<RunResult> {
         const wasi = new WASI(
-            ["ruby"].concat(extraArgs).concat([mainScriptPath]),
-            Object.entries(options.env).map(([key, value]) => `${key}=${value}`),
+            ["ruby"].concat(args),
+            Object.entries(env).map(([key, value]) => `${key}=${value}`),
             [
-                new OpenFile(new File([])), // stdin
+                new OpenFile(new File(new TextEncoder().encode(stdin))), // stdin
                 new OpenFile(new File([])), // stdout
                 new OpenFile(new File([])), // stderr
-                new PreopenDirectory("/", rootContents),
+                new PreopenDirectory("/", fs.rootContents),
             ],
             {
                 debug: false
@@ -283,17 +275,54 @@ export class RubyWorker {
         const imports = {
             wasi_snapshot_preview1: wasi.wasiImport,
         }
-        const printer = consolePrinter((fd, str) => { log(str) })
+        let stderr = ""
+        const printer = consolePrinter((fd, str) => {
+            if (fd === 2) {
+                stderr += str
+            }
+            log(fd === 1 ? "stdout" : "stderr", str)
+        })
         printer.addToImports(imports)
 
         const instnace: any = await WebAssembly.instantiate(this.module, imports);
         printer.setMemory(instnace.exports.memory);
+        const startTime = performance.now()
         try {
-            wasi.start(instnace)
+            const exitCode = wasi.start(instnace)
+            const exception = exitCode === 0 ? null : summarizeUncaughtException(stderr)
+            return { exitCode, duration: performance.now() - startTime, killed: false, exception }
         } catch (e) {
-            log(e)
-            throw e
+            // Traps and other crashes of the Wasm instance itself
+            log("stderr", String(e))
+            return { exitCode: null, duration: performance.now() - startTime, killed: false, exception: String(e) }
+        }
+    }
+
+    /**
+     * Lists the files created or changed during the last run
+     */
+    listChangedFiles(): OutputFile[] {
+        if (this.lastRun == null) {
+            return []
+        }
+        const changed: OutputFile[] = []
+        for (const [path, file] of this.lastRun.fs.listFiles({ ownOnly: true })) {
+            const before = this.lastRun.snapshot.get(path) ?? baseFileData(file)
+            if (before == null || !equalBytes(before, file.data)) {
+                changed.push({ path, size: file.data.byteLength })
+            }
+        }
+        return changed
+    }
+
+    /**
+     * Reads a file from the file system of the last run
+     */
+    readFile(path: string): Uint8Array {
+        if (this.lastRun == null) {
+            throw new Error("No run yet")
         }
+        return this.lastRun.fs.readFileSync(path)
     }
 }
 
@@ -35,3 +35,79 @@ test("remaining with no files", () => {
     expect(remaining).toEqual("main\n")
     expect(files).toEqual({})
 })
+
+test("no diagnostics for valid files", () => {
+    const [, , diagnostics] = splitFile(`#--- lib/foo.rb
+foo`)
+    expect(diagnostics).toEqual([])
+})
+
+test("duplicate files", () => {
+    const content = `#--- foo
+first
+#--- foo
+second`
+    const [files, , diagnostics] = splitFile(content)
+    expect(files).toEqual({ foo: { content: "second\n", sourceLine: 2 } })
+    expect(diagnostics).toEqual([
+        { severity: "warning", message: "Duplicate file 'foo' replaces the one on line 1", line: 2 },
+    ])
+})
+
+test("invalid paths are left out", () => {
+    const content = `#--- /etc/passwd
+x
+#--- ../escape.rb
+x
+#--- lib//foo.rb
+x
+#--- ok.rb
+ok`
+    const [files, , diagnostics] = splitFile(content)
+    expect(Object.keys(files)).toEqual(["ok.rb"])
+    expect(diagnostics.map(({ severity, line }) => [severity, line])).toEqual([["error", 0], ["error", 2], ["error", 4]])
+    expect(diagnostics[1].message).toEqual("Invalid file name '../escape.rb': '..' is not allowed")
+})
+
+test("directories", () => {
+    const content = `#--- tmp/
+#--- data/
+ignored
+#--- data/a.txt
+a`
+    const [files, , diagnostics] = splitFile(content)
+    expect(files).toEqual({
+        "tmp": { content: "", sourceLine: 0, directory: true },
+        "data": { content: "", sourceLine: 1, directory: true },
+        "data/a.txt": { content: "a\n", sourceLine: 3 },
+    })
+    expect(diagnostics).toEqual([
+        { severity: "warning", message: "Content of directory 'data' is ignored", line: 1 },
+    ])
+})
+
+test("a file cannot contain other files", () => {
+    const content = `#--- lib
+#--- lib/foo.rb`
+    const [, , diagnostics] = splitFile(content)
+    expect(diagnostics).toEqual([
+        { severity: "error", message: "'lib/foo.rb' is inside 'lib', which is a file", line: 1 },
+    ])
+})
+
+test("base64 content", () => {
+    const content = `#--- data.bin --base64
+AAEC
+/w==
+#--- bad.bin --base64
+!!!
+#--- x.rb --binary`
+    const [files, , diagnostics] = splitFile(content)
+    expect(files["data.bin"]).toEqual({ content: new Uint8Array([0, 1, 2, 255]), sourceLine: 0 })
+    expect(files["bad.bin"]).toBeUndefined()
+    expect(files["x.rb"]).toEqual({ content: "", sourceLine: 5 })
+    expect(diagnostics).toEqual([
+        { severity: "error", message: "Invalid base64 content of 'bad.bin'", line: 3 },
+        { severity: "warning", message: "Unknown option '--binary'", line: 5 },
+    ])
+})
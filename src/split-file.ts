@@ -1,47 +1,135 @@
 type FileEntry = {
-    content: string,
+    /// Text of the file, or the decoded bytes of a `--base64` file. Empty for directories.
+    content: string | Uint8Array,
     /// The line number in the original source where this file starts. 0-indexed.
-    sourceLine: number
+    sourceLine: number,
+    /// Set for `#--- name/` entries, which create a (possibly empty) directory
+    directory?: boolean,
+}
+
+/**
+ * A problem with a `#---` line, reported by splitFile instead of guessing what was meant
+ */
+type SplitFileDiagnostic = {
+    severity: "error" | "warning",
+    message: string,
+    /// The line number of the `#---` line. 0-indexed.
+    line: number,
+}
+
+/// Options that may follow the name, e.g. `#--- logo.png --base64`
+const FILE_OPTIONS = ["--base64"]
+
+/// Returns why the given name cannot be used as a path relative to the root, if it cannot
+function invalidPathReason(name: string): string | null {
+    if (name.startsWith("/")) {
+        return "absolute paths are not allowed"
+    }
+    const parts = name.replace(/\/$/, "").split("/")
+    if (parts.some((part) => part === "..")) {
+        return "'..' is not allowed"
+    }
+    if (parts.some((part) => part === "")) {
+        return "empty path components are not allowed"
+    }
+    return null
+}
+
+function decodeBase64(text: string): Uint8Array {
+    const binary = atob(text.replace(/\s/g, ""))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0))
 }
 
 /// A utility inspired by the LLVM `split-file` tool.
 /// This tool takes a file content and splits it into multiple files
 /// by regex pattern `^#--- filename` where `filename` is the
 /// name of the file to be created.
-/// Returns a tuple of the files and the remaining content.
+/// A filename ending with "/" creates a directory instead, and `--base64`
+/// after the filename marks base64-encoded binary content.
+/// Returns a tuple of the files, the remaining content and problems found in `#---` lines.
+/// Entries with invalid names are left out.
 /// See https://reviews.llvm.org/D83834 for the original tool.
-function splitFile(content: string): [{ [filename: string]: FileEntry }, string] {
+function splitFile(content: string): [{ [filename: string]: FileEntry }, string, SplitFileDiagnostic[]] {
     const files: { [filename: string]: FileEntry } = {}
+    const diagnostics: SplitFileDiagnostic[] = []
 
     const lines = content.split("\n")
-    let currentFile = null
+    let currentFile: { name: string, options: string[] } | null = null
     let currentSourceLine = 0
     let currentContent = ""
     let remaining = ""
 
+    const finishFile = () => {
+        if (currentFile === null) {
+            remaining = currentContent
+            return
+        }
+        const { name, options } = currentFile
+        const report = (severity: SplitFileDiagnostic["severity"], message: string) => {
+            diagnostics.push({ severity, message, line: currentSourceLine })
+        }
+        const invalid = invalidPathReason(name)
+        if (invalid != null) {
+            report("error", `Invalid file name '${name}': ${invalid}`)
+            return
+        }
+        const directory = name.endsWith("/")
+        const path = directory ? name.slice(0, -1) : name
+        if (path in files) {
+            report("warning", `Duplicate file '${path}' replaces the one on line ${files[path].sourceLine + 1}`)
+        }
+        for (const option of options) {
+            if (!FILE_OPTIONS.includes(option)) {
+                report("warning", `Unknown option '${option}'`)
+            }
+        }
+        if (directory) {
+            if (currentContent.trim() !== "") {
+                report("warning", `Content of directory '${path}' is ignored`)
+            }
+            files[path] = { content: "", sourceLine: currentSourceLine, directory: true }
+        } else if (options.includes("--base64")) {
+            try {
+                files[path] = { content: decodeBase64(currentContent), sourceLine: currentSourceLine }
+            } catch (error) {
+                report("error", `Invalid base64 content of '${path}'`)
+            }
+        } else {
+            files[path] = { content: currentContent, sourceLine: currentSourceLine }
+        }
+    }
+
     for (const [i, line] of lines.entries()) {
         const match = line.match(/^#--- (.+)$/)
         if (match != null) {
-            if (currentFile === null) {
-                remaining = currentContent
-            } else {
-                files[currentFile] = { content: currentContent, sourceLine: currentSourceLine }
-            }
-            currentFile = match[1]
+            finishFile()
+            const [name, ...options] = match[1].trim().split(/\s+(?=--)/)
+            currentFile = { name, options }
             currentSourceLine = i
             currentContent = ""
         } else {
             currentContent += line + "\n"
         }
     }
+    finishFile()
 
-    if (currentFile === null) {
-        remaining = currentContent
-    } else {
-        files[currentFile] = { content: currentContent, sourceLine: currentSourceLine }
+    // A path cannot be a file and a parent directory at the same time
+    for (const [path, file] of Object.entries(files)) {
+        const parts = path.split("/")
+        for (let i = 1; i < parts.length; i++) {
+            const parent = files[parts.slice(0, i).join("/")]
+            if (parent != null && !parent.directory) {
+                diagnostics.push({
+                    severity: "error",
+                    message: `'${path}' is inside '${parts.slice(0, i).join("/")}', which is a file`,
+                    line: file.sourceLine,
+                })
+            }
+        }
     }
 
-    return [files, remaining]
+    return [files, remaining, diagnostics]
 }
 
 export { splitFile }
+export type { FileEntry, SplitFileDiagnostic }
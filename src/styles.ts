@@ -0,0 +1,65 @@
+/// Rules for the classes of the elements created by the scripts. dist/index.css covers the static
+/// markup of the page, and Monaco decorations can only be styled through class names.
+const STYLES = `
+.plrb-output-stderr {
+    color: #c0392b;
+}
+
+.plrb-output-diff-changed {
+    background-color: #fff3b0;
+}
+
+.plrb-output-comparison {
+    display: flex;
+    gap: 1em;
+}
+
+.plrb-output-comparison-column {
+    flex: 1 1 0;
+    min-width: 0;
+    overflow-x: auto;
+}
+
+.plrb-output-comparison-header {
+    font-weight: bold;
+}
+
+.plrb-output-backtrace-link {
+    cursor: pointer;
+}
+
+.plrb-output-insns-link {
+    cursor: pointer;
+}
+
+.plrb-output-insns-highlight,
+.plrb-editor-insns-highlight {
+    background-color: #fff3b0;
+}
+
+.plrb-syntax-tree-children {
+    padding-left: 1.5em;
+}
+
+.plrb-syntax-tree-link {
+    cursor: pointer;
+}
+
+.plrb-syntax-tree-selected {
+    background-color: #fff3b0;
+}
+
+/* Marks the lines that have instructions, between the line numbers and the code */
+.plrb-editor-insns-gutter {
+    background-color: #e0a800;
+    width: 3px !important;
+    margin-left: 3px;
+}
+`
+
+/// Adds the rules to the page. Must be called once.
+export function installStyles() {
+    const style = document.createElement("style")
+    style.textContent = STYLES
+    document.head.appendChild(style)
+}
@@ -0,0 +1,107 @@
+import { diffSyntaxTrees, findNodePathAt, parseSyntaxTree } from "./syntax-tree"
+import { expect, test } from "vitest"
+
+const parseyDump = `###########################################################
+## Do NOT use this node dump for any purpose other than  ##
+## debug and research.  Compatibility is not guaranteed. ##
+###########################################################
+
+# @ NODE_SCOPE (id: 4, line: 1, location: (1,0)-(1,5))
+# +- nd_tbl: (empty)
+# +- nd_args:
+# |   (null node)
+# +- nd_body:
+#     @ NODE_OPCALL (id: 3, line: 1, location: (1,0)-(1,5))*
+#     +- nd_recv:
+#     |   @ NODE_INTEGER (id: 0, line: 1, location: (1,0)-(1,1))
+#     |   +- val: 1
+#     +- nd_mid: :+
+#     +- nd_args:
+#         @ NODE_LIST (id: 2, line: 1, location: (1,4)-(1,5))
+#         +- as.nd_alen: 1
+#         +- nd_head:
+#         |   @ NODE_INTEGER (id: 1, line: 1, location: (1,4)-(1,5))
+#         |   +- val: 2
+#         +- nd_next:
+#             (null node)
+`
+
+const prismDump = `@ ProgramNode (location: (1,0)-(1,5))
++-- locals: []
++-- statements:
+    @ StatementsNode (location: (1,0)-(1,5))
+    +-- body: (length: 1)
+        +-- @ CallNode (location: (1,0)-(1,5))
+            +-- CallNodeFlags: nil
+            +-- receiver:
+            |   @ IntegerNode (location: (1,0)-(1,1))
+            |   +-- IntegerBaseFlags: decimal
+            |   +-- value: 1
+            +-- call_operator_loc: nil
+            +-- name: :+
+            +-- message_loc: (1,2)-(1,3) = "+"
+            +-- arguments:
+            |   @ ArgumentsNode (location: (1,4)-(1,5))
+            |   +-- ArgumentsNodeFlags: nil
+            |   +-- arguments: (length: 1)
+            |       +-- @ IntegerNode (location: (1,4)-(1,5))
+            |           +-- IntegerBaseFlags: decimal
+            |           +-- value: 2
+            +-- block: nil
+`
+
+test("parse.y tree", () => {
+    const [scope] = parseSyntaxTree(parseyDump)
+    expect(scope.type).toEqual("NODE_SCOPE")
+    expect(scope.attributes).toEqual([["nd_tbl", "(empty)"]])
+    const [call] = scope.children
+    expect(call).toMatchObject({ type: "NODE_OPCALL", field: "nd_body", attributes: [["nd_mid", ":+"]] })
+    expect(call.children.map((node) => [node.field, node.type])).toEqual([["nd_recv", "NODE_INTEGER"], ["nd_args", "NODE_LIST"]])
+    expect(call.children[1].children[0]).toMatchObject({
+        type: "NODE_INTEGER",
+        field: "nd_head",
+        location: { startLine: 1, startColumn: 4, endLine: 1, endColumn: 5 },
+        attributes: [["val", "2"]],
+    })
+})
+
+test("prism tree", () => {
+    const [program] = parseSyntaxTree(prismDump)
+    expect(program).toMatchObject({ type: "ProgramNode", field: null, attributes: [["locals", "[]"]] })
+    const [statements] = program.children
+    const [call] = statements.children
+    expect(call).toMatchObject({ type: "CallNode", field: "body" })
+    expect(call.attributes).toContainEqual(["message_loc", `(1,2)-(1,3) = "+"`])
+    expect(call.children.map((node) => [node.field, node.type])).toEqual([["receiver", "IntegerNode"], ["arguments", "ArgumentsNode"]])
+    expect(call.children[1].children[0]).toMatchObject({ type: "IntegerNode", field: "arguments", attributes: [["IntegerBaseFlags", "decimal"], ["value", "2"]] })
+})
+
+test("innermost node at a position", () => {
+    const roots = parseSyntaxTree(prismDump)
+    expect(findNodePathAt(roots, 1, 4).map((node) => node.type)).toEqual(["ProgramNode", "StatementsNode", "CallNode", "ArgumentsNode", "IntegerNode"])
+    expect(findNodePathAt(roots, 1, 2).map((node) => node.type)).toEqual(["ProgramNode", "StatementsNode", "CallNode"])
+    expect(findNodePathAt(roots, 2, 0)).toEqual([])
+})
+
+test("diff of equivalent trees", () => {
+    const [call] = diffSyntaxTrees(parseSyntaxTree(parseyDump), parseSyntaxTree(prismDump))
+    expect(call).toMatchObject({ type: "equal", identical: true, left: { type: "CallNode" }, right: { type: "CallNode" } })
+    if (call.type === "equal") {
+        expect(call.left.node.type).toEqual("NODE_OPCALL")
+        expect(call.children.map((child) => child.type)).toEqual(["equal", "equal"])
+    }
+})
+
+test("diff with custom node type mappings", () => {
+    const diff = diffSyntaxTrees(parseSyntaxTree(parseyDump), parseSyntaxTree(prismDump), { NODE_OPCALL: "OperatorCall" })
+    expect(diff.map((entry) => entry.type)).toEqual(["delete", "insert"])
+})
+
+test("diff marks the mismatching subtree", () => {
+    const prism = parseSyntaxTree(prismDump.replace("@ IntegerNode (location: (1,4)-(1,5))", "@ FloatNode (location: (1,4)-(1,5))"))
+    const [call] = diffSyntaxTrees(parseSyntaxTree(parseyDump), prism)
+    expect(call).toMatchObject({ type: "equal", identical: false })
+    if (call.type === "equal") {
+        expect(call.children.map((child) => child.type)).toEqual(["equal", "delete", "insert"])
+    }
+})
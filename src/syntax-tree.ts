@@ -0,0 +1,260 @@
+import { diffSequences } from "./diff"
+
+/**
+ * A source range as printed in parse trees, e.g. "(1,0)-(1,5)"
+ */
+type SourceRange = {
+    /// 1-indexed
+    startLine: number,
+    /// 0-indexed
+    startColumn: number,
+    /// 1-indexed
+    endLine: number,
+    /// 0-indexed, exclusive
+    endColumn: number,
+}
+
+/**
+ * A node of the tree printed by `--dump=parsetree` of either parser
+ */
+type SyntaxTreeNode = {
+    /// e.g. "NODE_OPCALL" for parse.y or "CallNode" for prism
+    type: string,
+    /// The field of the parent holding the node, e.g. "nd_recv" or "receiver". null for the root.
+    field: string | null,
+    location: SourceRange | null,
+    /// Fields holding plain values, e.g. ["nd_mid", ":+"] or ["value", "1"]
+    attributes: [string, string][],
+    children: SyntaxTreeNode[],
+}
+
+/// "@ NODE_OPCALL (id: 1, line: 1, location: (1,0)-(1,5))*" or "@ CallNode (location: (1,0)-(1,5))",
+/// preceded by the lines of the tree and, for prism's list elements, "+-- "
+const nodeHeaderPattern = /^([ |+\-│├└─]*)@ (\S+)(?: \((.*)\))?/
+/// "+- nd_mid: :+" for parse.y, "+-- name: :+" for prism. An empty value or "(length: N)" means that nodes follow.
+const fieldPattern = /^([ |│]*)(?:\+--?|[├└]──) ([^:]+):(?: (.*))?$/
+const locationPattern = /location: \((\d+),(\d+)\)-\((\d+),(\d+)\)/
+
+/// Parses the output of `--dump=parsetree` of parse.y (lines prefixed with "# ") or prism.
+/// Returns the root nodes, i.e. one per dumped tree, and ignores any other text.
+function parseSyntaxTree(dump: string): SyntaxTreeNode[] {
+    const roots: SyntaxTreeNode[] = []
+    // The nodes enclosing the current line, with the column their "@" and their fields are at
+    const stack: { node: SyntaxTreeNode, column: number, pendingField: string | null }[] = []
+
+    for (let line of dump.split("\n")) {
+        if (line.startsWith("#")) {
+            if (line.startsWith("##")) {
+                // The "Do NOT use this node dump" banner
+                continue
+            }
+            line = line.replace(/^# ?/, "")
+        }
+        let match: RegExpMatchArray | null
+        if ((match = line.match(nodeHeaderPattern)) != null) {
+            const [_, prefix, type, details] = match
+            const column = prefix.length
+            while (stack.length > 0 && stack[stack.length - 1].column >= column) {
+                stack.pop()
+            }
+            const parent = stack[stack.length - 1]
+            const location = details?.match(locationPattern)
+            const node: SyntaxTreeNode = {
+                type,
+                field: parent?.pendingField ?? null,
+                location: location == null ? null : {
+                    startLine: Number(location[1]),
+                    startColumn: Number(location[2]),
+                    endLine: Number(location[3]),
+                    endColumn: Number(location[4]),
+                },
+                attributes: [],
+                children: [],
+            }
+            if (parent != null) {
+                parent.node.children.push(node)
+            } else {
+                roots.push(node)
+            }
+            stack.push({ node, column, pendingField: null })
+        } else if ((match = line.match(fieldPattern)) != null) {
+            const [_, prefix, name, value] = match
+            const column = prefix.length
+            while (stack.length > 0 && stack[stack.length - 1].column > column) {
+                stack.pop()
+            }
+            const owner = stack[stack.length - 1]
+            if (owner == null || owner.column !== column) {
+                continue
+            }
+            if (value == null || value === "" || /^\(length: \d+\)$/.test(value)) {
+                owner.pendingField = name
+            } else {
+                owner.node.attributes.push([name, value])
+                owner.pendingField = null
+            }
+        }
+    }
+    return roots
+}
+
+function rangeContains(range: SourceRange, line: number, column: number): boolean {
+    const afterStart = line > range.startLine || (line === range.startLine && column >= range.startColumn)
+    const beforeEnd = line < range.endLine || (line === range.endLine && column <= range.endColumn)
+    return afterStart && beforeEnd
+}
+
+/// Returns the path from a root to the innermost node whose location contains the given
+/// position (1-indexed line, 0-indexed column), or an empty array if there is none
+function findNodePathAt(roots: SyntaxTreeNode[], line: number, column: number): SyntaxTreeNode[] {
+    let best: SyntaxTreeNode[] = []
+    const visit = (node: SyntaxTreeNode, path: SyntaxTreeNode[]) => {
+        const current = path.concat([node])
+        if (node.location != null && rangeContains(node.location, line, column) && current.length > best.length) {
+            best = current
+        }
+        // Children are not always within their parent (e.g. heredocs), so look at all of them
+        for (const child of node.children) {
+            visit(child, current)
+        }
+    }
+    for (const root of roots) {
+        visit(root, [])
+    }
+    return best
+}
+
+/// Printed between the parse.y and prism dumps of the "syntax-diff" action
+const SYNTAX_DIFF_SEPARATOR = "\n## prism ##\n"
+
+/**
+ * Names node types of both parsers by what they have in common.
+ * Types missing here keep their own name, and types mapped to null are left out of the
+ * comparison, with their children taking their place.
+ */
+type NodeTypeMappings = { [type: string]: string | null }
+
+/// parse.y node types are mapped to the prism ones. Wrappers that only one of the parsers
+/// has, or whose placement differs between them, are left out.
+const DEFAULT_NODE_TYPE_MAPPINGS: NodeTypeMappings = {
+    NODE_SCOPE: null,
+    NODE_BLOCK: null,
+    NODE_LIST: null,
+    ProgramNode: null,
+    StatementsNode: null,
+    ArgumentsNode: null,
+    NODE_CALL: "CallNode",
+    NODE_OPCALL: "CallNode",
+    NODE_FCALL: "CallNode",
+    NODE_VCALL: "CallNode",
+    NODE_QCALL: "CallNode",
+    NODE_INTEGER: "IntegerNode",
+    NODE_FLOAT: "FloatNode",
+    NODE_RATIONAL: "RationalNode",
+    NODE_IMAGINARY: "ImaginaryNode",
+    NODE_STR: "StringNode",
+    NODE_DSTR: "InterpolatedStringNode",
+    NODE_XSTR: "XStringNode",
+    NODE_SYM: "SymbolNode",
+    NODE_DSYM: "InterpolatedSymbolNode",
+    NODE_REGX: "RegularExpressionNode",
+    NODE_DREGX: "InterpolatedRegularExpressionNode",
+    NODE_ZLIST: "ArrayNode",
+    NODE_HASH: "HashNode",
+    NODE_TRUE: "TrueNode",
+    NODE_FALSE: "FalseNode",
+    NODE_NIL: "NilNode",
+    NODE_SELF: "SelfNode",
+    NODE_LVAR: "LocalVariableReadNode",
+    NODE_DVAR: "LocalVariableReadNode",
+    NODE_LASGN: "LocalVariableWriteNode",
+    NODE_DASGN: "LocalVariableWriteNode",
+    NODE_IVAR: "InstanceVariableReadNode",
+    NODE_IASGN: "InstanceVariableWriteNode",
+    NODE_GVAR: "GlobalVariableReadNode",
+    NODE_GASGN: "GlobalVariableWriteNode",
+    NODE_CVAR: "ClassVariableReadNode",
+    NODE_CVASGN: "ClassVariableWriteNode",
+    NODE_CONST: "ConstantReadNode",
+    NODE_COLON2: "ConstantPathNode",
+    NODE_IF: "IfNode",
+    NODE_UNLESS: "UnlessNode",
+    NODE_CASE: "CaseNode",
+    NODE_WHEN: "WhenNode",
+    NODE_WHILE: "WhileNode",
+    NODE_UNTIL: "UntilNode",
+    NODE_FOR: "ForNode",
+    NODE_BREAK: "BreakNode",
+    NODE_NEXT: "NextNode",
+    NODE_REDO: "RedoNode",
+    NODE_RETRY: "RetryNode",
+    NODE_RETURN: "ReturnNode",
+    NODE_YIELD: "YieldNode",
+    NODE_AND: "AndNode",
+    NODE_OR: "OrNode",
+    NODE_DEFN: "DefNode",
+    NODE_DEFS: "DefNode",
+    NODE_CLASS: "ClassNode",
+    NODE_MODULE: "ModuleNode",
+    NODE_SCLASS: "SingletonClassNode",
+    NODE_SUPER: "SuperNode",
+    NODE_ZSUPER: "ForwardingSuperNode",
+    NODE_BEGIN: "BeginNode",
+    NODE_ENSURE: "EnsureNode",
+    NODE_RESCUE: "RescueNode",
+    NODE_DOT2: "RangeNode",
+    NODE_DOT3: "RangeNode",
+    NODE_LAMBDA: "LambdaNode",
+}
+
+/**
+ * A node with its type mapped by NodeTypeMappings
+ */
+type NormalizedNode = {
+    type: string,
+    node: SyntaxTreeNode,
+    children: NormalizedNode[],
+}
+
+function normalizeNodes(nodes: SyntaxTreeNode[], mappings: NodeTypeMappings): NormalizedNode[] {
+    return nodes.flatMap((node) => {
+        const children = normalizeNodes(node.children, mappings)
+        const type = node.type in mappings ? mappings[node.type] : node.type
+        return type == null ? children : [{ type, node, children }]
+    })
+}
+
+/**
+ * A node of the structural diff of two trees. parse.y is on the left and prism on the right.
+ */
+type SyntaxDiffEntry =
+    | { type: "equal", left: NormalizedNode, right: NormalizedNode, children: SyntaxDiffEntry[], identical: boolean }
+    | { type: "delete", left: NormalizedNode }
+    | { type: "insert", right: NormalizedNode }
+
+function diffNormalizedNodes(left: NormalizedNode[], right: NormalizedNode[]): SyntaxDiffEntry[] {
+    return diffSequences(left, right, (a, b) => a.type === b.type).map((edit): SyntaxDiffEntry => {
+        switch (edit.type) {
+            case "equal": {
+                const [l, r] = [left[edit.oldIndex], right[edit.newIndex]]
+                const children = diffNormalizedNodes(l.children, r.children)
+                const identical = children.every((child) => child.type === "equal" && child.identical)
+                return { type: "equal", left: l, right: r, children, identical }
+            }
+            case "delete":
+                return { type: "delete", left: left[edit.oldIndex] }
+            case "insert":
+                return { type: "insert", right: right[edit.newIndex] }
+        }
+    })
+}
+
+/// Compares the structure of the parse.y and prism trees of the same code, ignoring field names
+/// and attributes. `mappings` are applied on top of DEFAULT_NODE_TYPE_MAPPINGS.
+function diffSyntaxTrees(parsey: SyntaxTreeNode[], prism: SyntaxTreeNode[], mappings: NodeTypeMappings = {}): SyntaxDiffEntry[] {
+    const allMappings = { ...DEFAULT_NODE_TYPE_MAPPINGS, ...mappings }
+    return diffNormalizedNodes(normalizeNodes(parsey, allMappings), normalizeNodes(prism, allMappings))
+}
+
+export { parseSyntaxTree, findNodePathAt, diffSyntaxTrees, SYNTAX_DIFF_SEPARATOR, DEFAULT_NODE_TYPE_MAPPINGS }
+export type { SyntaxTreeNode, SourceRange, NodeTypeMappings, NormalizedNode, SyntaxDiffEntry }
@@ -0,0 +1,140 @@
+import { openDatabase, requestToPromise } from "./idb"
+import { formatSize } from "./format"
+
+/**
+ * A local file uploaded by the user to be placed next to the code in every run
+ */
+export type UploadedFile = {
+    /// Path relative to the root directory of the run
+    name: string,
+    data: Uint8Array,
+}
+
+/**
+ * Persists uploaded files in IndexedDB so that they survive page reloads
+ */
+export class UploadedFileStore {
+    private static storeName = "files"
+
+    private constructor(private db: IDBDatabase) { }
+
+    static async open(): Promise<UploadedFileStore> {
+        const db = await openDatabase("play-ruby-uploaded-files", 1, (db) => {
+            db.createObjectStore(UploadedFileStore.storeName, { keyPath: "name" })
+        })
+        return new UploadedFileStore(db)
+    }
+
+    private objectStore(mode: IDBTransactionMode) {
+        return this.db.transaction(UploadedFileStore.storeName, mode).objectStore(UploadedFileStore.storeName)
+    }
+
+    async list(): Promise<UploadedFile[]> {
+        return await requestToPromise(this.objectStore("readonly").getAll())
+    }
+
+    async put(file: UploadedFile) {
+        await requestToPromise(this.objectStore("readwrite").put(file))
+    }
+
+    async delete(name: string) {
+        await requestToPromise(this.objectStore("readwrite").delete(name))
+    }
+}
+
+/**
+ * Accepts files by drag-and-drop or a file picker and lists them with remove buttons
+ */
+export class UploadedFilesPanel {
+    /// The files to be written into the file system of each run
+    files: UploadedFile[] = []
+    private list: HTMLUListElement
+    private summary: HTMLElement
+
+    /**
+     * @param store Where the files are kept across reloads, or null to keep them only in memory
+     *              (e.g. when IndexedDB is unavailable in private browsing)
+     */
+    private constructor(private element: HTMLDetailsElement, private store: UploadedFileStore | null) {
+        this.summary = document.createElement("summary")
+        const input = document.createElement("input")
+        input.type = "file"
+        input.multiple = true
+        input.addEventListener("change", async () => {
+            await this.upload(Array.from(input.files))
+            input.value = ""
+        })
+        const hint = document.createElement("span")
+        hint.innerText = " or drop files onto the editor"
+        this.list = document.createElement("ul")
+        this.list.classList.add("plrb-uploaded-files-list")
+        this.element.append(this.summary, input, hint, this.list)
+    }
+
+    static async create(container: HTMLElement, dropTarget: HTMLElement): Promise<UploadedFilesPanel> {
+        const element = document.createElement("details")
+        element.id = "uploaded-files"
+        element.classList.add("plrb-uploaded-files")
+        container.appendChild(element)
+
+        let store: UploadedFileStore | null = null
+        try {
+            store = await UploadedFileStore.open()
+        } catch (error) {
+            console.warn("Uploaded files will not be kept across reloads", error)
+        }
+        const panel = new UploadedFilesPanel(element, store)
+        dropTarget.addEventListener("dragover", (event) => {
+            if (event.dataTransfer?.types.includes("Files")) {
+                event.preventDefault()
+            }
+        })
+        dropTarget.addEventListener("drop", async (event) => {
+            if (event.dataTransfer == null || event.dataTransfer.files.length === 0) {
+                return
+            }
+            event.preventDefault()
+            await panel.upload(Array.from(event.dataTransfer.files))
+            element.open = true
+        })
+        await panel.reload()
+        return panel
+    }
+
+    private async upload(files: File[]) {
+        for (const file of files) {
+            const uploaded = { name: file.name, data: new Uint8Array(await file.arrayBuffer()) }
+            if (this.store != null) {
+                await this.store.put(uploaded)
+            } else {
+                this.files = this.files.filter((other) => other.name !== uploaded.name).concat([uploaded])
+            }
+        }
+        await this.reload()
+    }
+
+    private async reload() {
+        if (this.store != null) {
+            this.files = await this.store.list()
+        }
+        this.summary.innerText = `Uploaded files (${this.files.length})`
+        this.list.innerHTML = ""
+        for (const file of this.files) {
+            const item = document.createElement("li")
+            const name = document.createElement("span")
+            name.innerText = `${file.name} (${formatSize(file.data.byteLength)})`
+            const remove = document.createElement("button")
+            remove.innerText = "Remove"
+            remove.addEventListener("click", async () => {
+                if (this.store != null) {
+                    await this.store.delete(file.name)
+                } else {
+                    this.files = this.files.filter((other) => other !== file)
+                }
+                await this.reload()
+            })
+            item.append(name, remove)
+            this.list.appendChild(item)
+        }
+    }
+}
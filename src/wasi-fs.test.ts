@@ -0,0 +1,244 @@
+import { Directory, OpenFile, PreopenDirectory, wasi } from "@bjorn3/browser_wasi_shim"
+import { WASIFs, baseFileData } from "./wasi-fs"
+import { expect, test } from "vitest"
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+const text = (data: Uint8Array) => new TextDecoder().decode(data)
+
+function makeBase() {
+    const fs = new WASIFs()
+    fs.mkdirSync("/usr/local/lib/ruby", { recursive: true })
+    fs.writeFileSync("/usr/local/lib/ruby/set.rb", bytes("class Set; end"))
+    fs.writeFileSync("/usr/local/lib/ruby/json.rb", bytes("module JSON; end"))
+    return fs
+}
+
+/// Opens a file the way Ruby does through WASI
+function openFile(fs: WASIFs, path: string, oflags: number, write: boolean): OpenFile {
+    const root = new PreopenDirectory("/", fs.rootContents)
+    const rights = write ? BigInt(wasi.RIGHTS_FD_READ | wasi.RIGHTS_FD_WRITE) : BigInt(wasi.RIGHTS_FD_READ)
+    const { ret, fd_obj } = root.path_open(0, path, oflags, rights, BigInt(0), 0)
+    expect(ret).toEqual(wasi.ERRNO_SUCCESS)
+    return fd_obj as OpenFile
+}
+
+test("writes in place do not reach the base", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    // Same length, so the shim writes into the existing buffer
+    openFile(overlay, "usr/local/lib/ruby/set.rb", 0, true).fd_write(bytes("class Bad; end"))
+    expect(text(overlay.readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Bad; end")
+    expect(text(base.readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Set; end")
+    expect(text(base.overlay().readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Set; end")
+})
+
+test("reading does not copy file data", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    const file = openFile(overlay, "usr/local/lib/ruby/json.rb", 0, false)
+    expect(text(file.fd_read(100).data)).toEqual("module JSON; end")
+    expect(overlay.readFileSync("/usr/local/lib/ruby/json.rb")).toBe(base.readFileSync("/usr/local/lib/ruby/json.rb"))
+})
+
+test("created and deleted files stay in the overlay", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    openFile(overlay, "usr/local/lib/ruby/new.rb", wasi.OFLAGS_CREAT, true).fd_write(bytes("new"))
+    const root = new PreopenDirectory("/", overlay.rootContents)
+    expect(root.path_unlink_file("usr/local/lib/ruby/json.rb")).toEqual(wasi.ERRNO_SUCCESS)
+    overlay.writeFileSync("/main.rb", bytes("puts 1"))
+
+    expect(overlay.readdirSync("/usr/local/lib/ruby").sort()).toEqual(["new.rb", "set.rb"])
+    expect(base.readdirSync("/usr/local/lib/ruby").sort()).toEqual(["json.rb", "set.rb"])
+    expect(base.readdirSync("/")).toEqual(["usr"])
+    expect(base.overlay().readdirSync("/usr/local/lib/ruby").sort()).toEqual(["json.rb", "set.rb"])
+})
+
+test("truncating does not reach the base", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    openFile(overlay, "usr/local/lib/ruby/set.rb", wasi.OFLAGS_TRUNC, true)
+    expect(overlay.readFileSync("/usr/local/lib/ruby/set.rb").byteLength).toEqual(0)
+    expect(text(base.readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Set; end")
+})
+
+test("links share the file within an overlay", () => {
+    const base = makeBase()
+    base.symlinkSync("set.rb", "/usr/local/lib/ruby/set-link.rb")
+    const overlay = base.overlay()
+    openFile(overlay, "usr/local/lib/ruby/set-link.rb", 0, true).fd_write(bytes("class Mod; end"))
+    expect(text(overlay.readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Mod; end")
+    expect(text(base.readFileSync("/usr/local/lib/ruby/set.rb"))).toEqual("class Set; end")
+})
+
+test("lists the files of the base through the overlay", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    expect(Array.from(overlay.listFiles().keys()).sort()).toEqual(["usr/local/lib/ruby/json.rb", "usr/local/lib/ruby/set.rb"])
+    // Looking a directory up gives the overlay its own copy
+    expect(overlay.rootContents.get("usr")).not.toBe(base.rootContents.get("usr"))
+})
+
+test("lists only the files an overlay has looked up or written", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    expect(overlay.listFiles({ ownOnly: true }).size).toEqual(0)
+    overlay.writeFileSync("/main.rb", bytes("puts 1"))
+    overlay.readFileSync("/usr/local/lib/ruby/set.rb")
+    expect(Array.from(overlay.listFiles({ ownOnly: true }).keys()).sort()).toEqual(["main.rb", "usr/local/lib/ruby/set.rb"])
+})
+
+test("lists directories linked to an ancestor once", () => {
+    const base = makeBase()
+    base.symlinkSync("/usr", "/usr/local/lib/ruby/loop")
+    expect(Array.from(base.listFiles().keys()).sort()).toEqual(["usr/local/lib/ruby/json.rb", "usr/local/lib/ruby/set.rb"])
+    const overlay = base.overlay()
+    overlay.readdirSync("/usr/local/lib/ruby/loop/local")
+    expect(Array.from(overlay.listFiles({ ownOnly: true }).keys())).toEqual([])
+})
+
+test("keeps the original data of base files written in place", () => {
+    const base = makeBase()
+    const overlay = base.overlay()
+    openFile(overlay, "usr/local/lib/ruby/set.rb", 0, true).fd_write(bytes("class Bad; end"))
+    const files = overlay.listFiles({ ownOnly: true })
+    expect(text(baseFileData(files.get("usr/local/lib/ruby/set.rb")))).toEqual("class Set; end")
+    overlay.writeFileSync("/main.rb", bytes("puts 1"))
+    expect(baseFileData(overlay.listFiles({ ownOnly: true }).get("main.rb"))).toBeNull()
+})
+
+/// Returns the code of the FsError thrown by the given function
+function errorCode(body: () => void): string | undefined {
+    try {
+        body()
+    } catch (error) {
+        return error.code
+    }
+    return undefined
+}
+
+test("reads report missing paths without creating directories", () => {
+    const fs = makeBase()
+    expect(errorCode(() => fs.readFileSync("/missing/file.rb"))).toEqual("ENOENT")
+    expect(errorCode(() => fs.readdirSync("/missing/dir"))).toEqual("ENOENT")
+    expect(errorCode(() => fs.statSync("/missing"))).toEqual("ENOENT")
+    expect(fs.existsSync("/missing")).toBe(false)
+    expect(fs.readdirSync("/")).toEqual(["usr"])
+})
+
+test("reads report ENOTDIR and EISDIR", () => {
+    const fs = makeBase()
+    expect(errorCode(() => fs.readdirSync("/usr/local/lib/ruby/set.rb"))).toEqual("ENOTDIR")
+    expect(errorCode(() => fs.readFileSync("/usr/local/lib/ruby/set.rb/child"))).toEqual("ENOTDIR")
+    expect(errorCode(() => fs.readFileSync("/usr/local"))).toEqual("EISDIR")
+    expect(() => fs.readFileSync("/nope")).toThrow("ENOENT: no such file or directory, open '/nope'")
+})
+
+test("readFileSync decodes with an encoding", () => {
+    const fs = makeBase()
+    expect(fs.readFileSync("/usr/local/lib/ruby/set.rb", "utf8")).toEqual("class Set; end")
+    expect(fs.readFileSync("/usr/local/lib/ruby/set.rb", { encoding: "utf8" })).toEqual("class Set; end")
+})
+
+test("statSync", () => {
+    const fs = makeBase()
+    const mtime = new Date("2024-12-25T00:00:00Z")
+    fs.writeFileSync("/usr/bin", "#!", { mode: 0o755, mtime })
+    const file = fs.statSync("/usr/bin")
+    expect(file.isFile()).toBe(true)
+    expect(file.isDirectory()).toBe(false)
+    expect(file.size).toEqual(2)
+    expect(file.mode).toEqual(0o100755)
+    expect(file.mtime).toEqual(mtime)
+    const dir = fs.statSync("/usr/local")
+    expect(dir.isDirectory()).toBe(true)
+    expect(dir.mode).toEqual(0o040755)
+    expect(fs.statSync("/").isDirectory()).toBe(true)
+})
+
+test("reports modification times to WASI in the filestat layout", () => {
+    const fs = makeBase()
+    const mtime = new Date("2024-12-25T00:00:00Z")
+    fs.writeFileSync("/usr/bin", "#!", { mode: 0o755, mtime })
+    const file = (fs.rootContents.get("usr") as Directory).contents.get("bin")
+    const view = new DataView(new ArrayBuffer(64))
+    file.stat().write_bytes(view, 0)
+    const time = BigInt(mtime.getTime()) * BigInt(1_000_000)
+    expect(view.getUint8(16)).toEqual(wasi.FILETYPE_REGULAR_FILE)
+    expect(view.getBigUint64(32, true)).toEqual(BigInt(2))
+    expect(view.getBigUint64(40, true)).toEqual(time)
+    expect(view.getBigUint64(48, true)).toEqual(time)
+    expect(view.getBigUint64(56, true)).toEqual(time)
+})
+
+test("mkdirSync", () => {
+    const fs = new WASIFs()
+    fs.mkdirSync("/tmp")
+    expect(errorCode(() => fs.mkdirSync("/tmp"))).toEqual("EEXIST")
+    expect(errorCode(() => fs.mkdirSync("/a/b"))).toEqual("ENOENT")
+    fs.mkdirSync("/tmp", { recursive: true })
+    fs.writeFileSync("/file", "")
+    expect(errorCode(() => fs.mkdirSync("/file/dir", { recursive: true }))).toEqual("ENOTDIR")
+})
+
+test("writeFileSync replaces existing files", () => {
+    const fs = makeBase()
+    fs.writeFileSync("/usr/local/lib/ruby/set.rb", "replaced")
+    expect(fs.readFileSync("/usr/local/lib/ruby/set.rb", "utf8")).toEqual("replaced")
+    expect(errorCode(() => fs.writeFileSync("/usr/local", "x"))).toEqual("EISDIR")
+})
+
+test("unlinkSync", () => {
+    const fs = makeBase()
+    fs.symlinkSync("lib", "/usr/local/lib64")
+    fs.unlinkSync("/usr/local/lib/ruby/set.rb")
+    expect(fs.existsSync("/usr/local/lib/ruby/set.rb")).toBe(false)
+    expect(errorCode(() => fs.unlinkSync("/usr/local/lib/ruby/set.rb"))).toEqual("ENOENT")
+    expect(errorCode(() => fs.unlinkSync("/usr/local/lib"))).toEqual("EISDIR")
+    // Symlinks to directories can be unlinked
+    fs.unlinkSync("/usr/local/lib64")
+    expect(fs.readdirSync("/usr/local")).toEqual(["lib"])
+    expect(fs.symlinks.size).toEqual(0)
+})
+
+test("rmSync", () => {
+    const fs = makeBase()
+    expect(errorCode(() => fs.rmSync("/usr"))).toEqual("EISDIR")
+    expect(errorCode(() => fs.rmSync("/missing"))).toEqual("ENOENT")
+    fs.rmSync("/missing", { force: true })
+    fs.rmSync("/missing/child", { force: true })
+    fs.rmSync("/usr/local/lib/ruby/set.rb")
+    fs.rmSync("/usr", { recursive: true })
+    expect(fs.readdirSync("/")).toEqual([])
+})
+
+test("renameSync", () => {
+    const fs = makeBase()
+    fs.renameSync("/usr/local/lib/ruby/set.rb", "/set.rb")
+    expect(fs.readFileSync("/set.rb", "utf8")).toEqual("class Set; end")
+    expect(fs.existsSync("/usr/local/lib/ruby/set.rb")).toBe(false)
+    // Replaces files
+    fs.renameSync("/set.rb", "/usr/local/lib/ruby/json.rb")
+    expect(fs.readFileSync("/usr/local/lib/ruby/json.rb", "utf8")).toEqual("class Set; end")
+
+    fs.mkdirSync("/empty")
+    fs.renameSync("/usr/local/lib", "/empty")
+    expect(fs.readdirSync("/empty")).toEqual(["ruby"])
+    expect(errorCode(() => fs.renameSync("/missing", "/other"))).toEqual("ENOENT")
+    expect(errorCode(() => fs.renameSync("/empty", "/usr"))).toEqual("ENOTEMPTY")
+    expect(errorCode(() => fs.renameSync("/empty/ruby/json.rb", "/usr"))).toEqual("EISDIR")
+    expect(errorCode(() => fs.renameSync("/usr", "/empty/ruby/json.rb"))).toEqual("ENOTDIR")
+    expect(errorCode(() => fs.renameSync("/empty", "/empty/ruby/inside"))).toEqual("EINVAL")
+    expect(errorCode(() => fs.renameSync("/empty/ruby/json.rb", "/missing/json.rb"))).toEqual("ENOENT")
+})
+
+test("readlinkSync", () => {
+    const fs = makeBase()
+    fs.symlinkSync("ruby/set.rb", "/usr/local/lib/set.rb")
+    expect(fs.readlinkSync("/usr/local/lib/set.rb")).toEqual("ruby/set.rb")
+    expect(errorCode(() => fs.readlinkSync("/usr/local/lib/ruby/set.rb"))).toEqual("EINVAL")
+    expect(errorCode(() => fs.readlinkSync("/missing"))).toEqual("ENOENT")
+    // Links move with their directory
+    fs.renameSync("/usr/local/lib", "/lib")
+    expect(fs.readlinkSync("/lib/set.rb")).toEqual("ruby/set.rb")
+})
@@ -0,0 +1,529 @@
+import { Directory, File, Inode, wasi } from "@bjorn3/browser_wasi_shim"
+import type { IFs } from "./ruby-install"
+
+/**
+ * Permission bits and modification time of an installed file or directory.
+ * WASI has no notion of permissions, so only the modification time reaches Ruby.
+ */
+export type InodeMetadata = {
+    mode: number,
+    /// Milliseconds since the epoch
+    mtime: number,
+}
+
+const inodeMetadata = new WeakMap<Inode, InodeMetadata>()
+
+/// Writes a filestat in the layout of the WASI spec. The shim's own Filestat#write_bytes puts the
+/// timestamps at the wrong offsets, over the size, which only goes unnoticed while they are zero.
+function writeFilestat(filestat: wasi.Filestat, view: DataView, ptr: number) {
+    view.setBigUint64(ptr, filestat.dev, true)
+    view.setBigUint64(ptr + 8, filestat.ino, true)
+    view.setUint8(ptr + 16, filestat.filetype)
+    view.setBigUint64(ptr + 24, filestat.nlink, true)
+    view.setBigUint64(ptr + 32, filestat.size, true)
+    view.setBigUint64(ptr + 40, filestat.atim, true)
+    view.setBigUint64(ptr + 48, filestat.mtim, true)
+    view.setBigUint64(ptr + 56, filestat.ctim, true)
+}
+
+/// Records metadata of an inode and reports its modification time to WASI
+export function setInodeMetadata(inode: Inode, metadata: InodeMetadata) {
+    if (!inodeMetadata.has(inode)) {
+        const stat = inode.stat.bind(inode)
+        inode.stat = () => {
+            const filestat = stat()
+            const time = BigInt(inodeMetadata.get(inode).mtime) * BigInt(1_000_000)
+            filestat.atim = filestat.mtim = filestat.ctim = time
+            filestat.write_bytes = (view, ptr) => writeFilestat(filestat, view, ptr)
+            return filestat
+        }
+    }
+    inodeMetadata.set(inode, metadata)
+}
+
+export function getInodeMetadata(inode: Inode): InodeMetadata | undefined {
+    return inodeMetadata.get(inode)
+}
+
+/**
+ * A file of the base layer as seen from an overlay. It shares the data of the base file
+ * until it is opened for writing, because the WASI shim writes into the data in place.
+ */
+class CopyOnWriteFile extends File {
+    private copied = false
+
+    constructor(public base: File) {
+        super([], { readonly: base.readonly })
+        this.data = base.data
+    }
+
+    path_open(oflags: number, fs_rights_base: bigint, fd_flags: number) {
+        if (!this.copied && (fs_rights_base & BigInt(wasi.RIGHTS_FD_WRITE)) !== BigInt(0)) {
+            this.data = this.data.slice()
+            this.copied = true
+        }
+        return super.path_open(oflags, fs_rights_base, fd_flags)
+    }
+}
+
+/// Returns the data the given file of an overlay started with, i.e. that of the file it stands for
+/// in the base layer, or null if the file was created in the overlay
+export function baseFileData(file: File): Uint8Array | null {
+    return file instanceof CopyOnWriteFile ? file.base.data : null
+}
+
+/// Returns the inode that stands for the given base inode in an overlay, creating it on first access
+function overlayInode(inode: Inode, overlayInodes: Map<Inode, Inode>): Inode {
+    // Links share inodes, so they must share the overlay inode as well
+    let overlay = overlayInodes.get(inode)
+    if (overlay == null) {
+        if (inode instanceof Directory) {
+            overlay = new Directory(new OverlayContents(inode.contents, overlayInodes))
+        } else if (inode instanceof File) {
+            overlay = new CopyOnWriteFile(inode)
+        } else {
+            return inode
+        }
+        const metadata = getInodeMetadata(inode)
+        if (metadata != null) {
+            setInodeMetadata(overlay, metadata)
+        }
+        overlayInodes.set(inode, overlay)
+    }
+    return overlay
+}
+
+/**
+ * Directory contents of an overlay. It starts as a copy of the base directory's entries,
+ * which are swapped for overlay inodes when they are looked up, so that the base is never modified.
+ * Iterating yields base inodes that have not been looked up yet, which is fine for listing and stat.
+ */
+class OverlayContents extends Map<string, Inode> {
+    /// Names whose entry is still the inode of the base layer
+    private fromBase: Set<string>
+
+    constructor(base: Map<string, Inode>, private overlayInodes: Map<Inode, Inode>) {
+        super(base)
+        this.fromBase = new Set(base.keys())
+    }
+
+    get(name: string): Inode | undefined {
+        const entry = super.get(name)
+        if (entry != null && this.fromBase.has(name)) {
+            const overlay = overlayInode(entry, this.overlayInodes)
+            this.set(name, overlay)
+            return overlay
+        }
+        return entry
+    }
+
+    set(name: string, entry: Inode): this {
+        // Called by the Map constructor before fromBase is initialized
+        this.fromBase?.delete(name)
+        return super.set(name, entry)
+    }
+
+    delete(name: string): boolean {
+        this.fromBase.delete(name)
+        return super.delete(name)
+    }
+
+    /// The entries that have been looked up or changed through the overlay
+    *ownEntries(): IterableIterator<[string, Inode]> {
+        for (const entry of super.entries()) {
+            if (!this.fromBase.has(entry[0])) {
+                yield entry
+            }
+        }
+    }
+}
+
+/**
+ * A "node:fs"-like error, e.g. `ENOENT: no such file or directory, open '/foo'`
+ */
+export class FsError extends Error {
+    constructor(public code: keyof typeof FS_ERROR_DESCRIPTIONS, public syscall: string, public path: string, public dest?: string) {
+        super(`${code}: ${FS_ERROR_DESCRIPTIONS[code]}, ${syscall} '${path}'${dest == null ? "" : ` -> '${dest}'`}`)
+    }
+}
+
+const FS_ERROR_DESCRIPTIONS = {
+    ENOENT: "no such file or directory",
+    ENOTDIR: "not a directory",
+    EISDIR: "illegal operation on a directory",
+    EEXIST: "file already exists",
+    ENOTEMPTY: "directory not empty",
+    EINVAL: "invalid argument",
+}
+
+/**
+ * The subset of "node:fs" Stats that WASIFs can fill in
+ */
+export type Stats = {
+    size: number,
+    /// File type and permission bits. Permissions default to 0o644 for files and 0o755 for directories.
+    mode: number,
+    mtimeMs: number,
+    mtime: Date,
+    isFile(): boolean,
+    isDirectory(): boolean,
+}
+
+const S_IFREG = 0o100000
+const S_IFDIR = 0o040000
+
+/// Where an entry is, or would be, in its parent directory
+type Location = { parent: Map<string, Inode>, name: string, entry: Inode | undefined }
+
+export class WASIFs implements IFs {
+    public rootContents: Map<string, Inode> = new Map()
+    /// Targets of symbolic links keyed by the path of the link, relative to the root
+    public symlinks: Map<string, string> = new Map()
+    constructor() { }
+
+    private _splitPath(path: string): string[] {
+        const parts = path.split("/")
+        // Remove empty parts, meaning that "/usr//local" becomes ["", "usr", "", "local"]
+        // and then remove "." because:
+        // - Our cwd is always "/"
+        // - "." does not change the path
+        return parts.filter((part) => part !== "" && part !== ".")
+    }
+
+    /**
+     * Finds the directory containing the given path without creating anything
+     * @throws FsError ENOENT if a parent directory is missing, or ENOTDIR if one is not a directory
+     */
+    private _locate(path: string, syscall: string): Location {
+        const parts = this._splitPath(path)
+        if (parts.length === 0) {
+            // The root itself has no parent
+            throw new FsError("EINVAL", syscall, path)
+        }
+        let parent = this.rootContents
+        for (const part of parts.slice(0, parts.length - 1)) {
+            const entry = parent.get(part)
+            if (entry == null) {
+                throw new FsError("ENOENT", syscall, path)
+            } else if (!(entry instanceof Directory)) {
+                throw new FsError("ENOTDIR", syscall, path)
+            }
+            parent = entry.contents
+        }
+        const name = parts[parts.length - 1]
+        return { parent, name, entry: parent.get(name) }
+    }
+
+    /// Returns the inode at the given path, which must exist
+    private _get(path: string, syscall: string): Inode {
+        if (this._splitPath(path).length === 0) {
+            return new Directory(this.rootContents)
+        }
+        const { entry } = this._locate(path, syscall)
+        if (entry == null) {
+            throw new FsError("ENOENT", syscall, path)
+        }
+        return entry
+    }
+
+    /// Returns the directory at the given parts, creating missing ones like `mkdir -p`
+    private _getDirectoryAtPath(parts: string[], path: string): Map<string, Inode> {
+        let contents = this.rootContents
+        for (const part of parts) {
+            const entry = contents.get(part)
+            if (entry == null) {
+                const directory = new Directory(new Map())
+                contents.set(part, directory)
+                contents = directory.contents
+            } else if (entry instanceof Directory) {
+                contents = entry.contents
+            } else {
+                throw new FsError("ENOTDIR", "open", path)
+            }
+        }
+        return contents
+    }
+
+    /// Returns the inode at the given path without creating anything, or undefined if there is none
+    private _lookup(parts: string[]): Inode | undefined {
+        let entry: Inode | undefined = undefined
+        let contents = this.rootContents
+        for (const part of parts) {
+            if (contents == null) {
+                return undefined
+            }
+            entry = contents.get(part)
+            contents = entry instanceof Directory ? entry.contents : null
+        }
+        return entry
+    }
+
+    private _setMetadata(inode: Inode, options?: any) {
+        if (options?.mode != null || options?.mtime != null) {
+            setInodeMetadata(inode, { mode: options.mode ?? 0, mtime: options.mtime?.valueOf() ?? 0 })
+        }
+    }
+
+    /// Makes `parts` refer to the given inode, like a link
+    private _link(inode: Inode, parts: string[], path: string) {
+        const dir = this._getDirectoryAtPath(parts.slice(0, parts.length - 1), path)
+        dir.set(parts[parts.length - 1], inode)
+    }
+
+    /// Moves or drops the recorded targets of symlinks at or under the given path
+    private _moveSymlinks(from: string, to: string | null) {
+        const prefix = this._splitPath(from).join("/")
+        for (const [link, target] of Array.from(this.symlinks)) {
+            if (link === prefix || link.startsWith(`${prefix}/`)) {
+                this.symlinks.delete(link)
+                if (to != null) {
+                    this.symlinks.set(this._splitPath(to).join("/") + link.slice(prefix.length), target)
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns a writable copy-on-write layer over this file system, which itself stays untouched.
+     * Directories and files are copied only when they are first looked up or written.
+     */
+    overlay(): WASIFs {
+        const fs = new WASIFs()
+        fs.rootContents = new OverlayContents(this.rootContents, new Map())
+        fs.symlinks = new Map(this.symlinks)
+        return fs
+    }
+
+    /**
+     * Returns the regular files in the file system keyed by their path relative to the root.
+     * A directory reachable through several paths (e.g. a link to an ancestor) is listed once.
+     * @param options.ownOnly On an overlay, leave out the parts of the base layer that have not been looked up
+     */
+    listFiles(options?: { ownOnly?: boolean }): Map<string, File> {
+        const files = new Map<string, File>()
+        const visited = new Set<Map<string, Inode>>()
+        const walk = (contents: Map<string, Inode>, prefix: string) => {
+            if (visited.has(contents)) {
+                return
+            }
+            visited.add(contents)
+            const entries = options?.ownOnly && contents instanceof OverlayContents ? contents.ownEntries() : contents.entries()
+            for (const [name, entry] of entries) {
+                if (entry instanceof Directory) {
+                    walk(entry.contents, `${prefix}${name}/`)
+                } else if (entry instanceof File) {
+                    files.set(`${prefix}${name}`, entry)
+                }
+            }
+        }
+        walk(this.rootContents, "")
+        return files
+    }
+
+    // "node:fs"-like APIs
+
+    mkdirSync(path: string, options?: any): void {
+        const parts = this._splitPath(path)
+        const recursive = options?.recursive ?? false
+
+        let current = this.rootContents
+        let directory: Directory | null = null
+        for (const [index, part] of parts.entries()) {
+            const entry = current.get(part)
+            if (entry == null) {
+                if (!recursive && index < parts.length - 1) {
+                    throw new FsError("ENOENT", "mkdir", path)
+                }
+                directory = new Directory(new Map())
+                current.set(part, directory)
+            } else if (entry instanceof Directory) {
+                if (!recursive && index === parts.length - 1) {
+                    throw new FsError("EEXIST", "mkdir", path)
+                }
+                directory = entry
+            } else {
+                throw new FsError(index === parts.length - 1 ? "EEXIST" : "ENOTDIR", "mkdir", path)
+            }
+            current = directory.contents
+        }
+        if (directory != null) {
+            this._setMetadata(directory, options)
+        }
+    }
+
+    /**
+     * Writes a file, replacing the contents of an existing one.
+     * Unlike "node:fs", missing parent directories are created, because archives and split files may omit them.
+     */
+    writeFileSync(path: string, data: string | Uint8Array, options?: any): void {
+        const parts = this._splitPath(path)
+        const dir = this._getDirectoryAtPath(parts.slice(0, parts.length - 1), path)
+        const name = parts[parts.length - 1]
+        let file = dir.get(name)
+        if (file instanceof Directory) {
+            throw new FsError("EISDIR", "open", path)
+        } else if (!(file instanceof File)) {
+            file = new File([])
+            dir.set(name, file)
+        }
+        (file as File).data = typeof data === "string" ? new TextEncoder().encode(data) : data
+        this._setMetadata(file, options)
+    }
+
+    /**
+     * Creates a symbolic link at `path` pointing to `target`, which is relative to the directory of the link unless absolute.
+     * The WASI shim cannot follow links, so the link shares the inode of the target, which must already exist.
+     */
+    symlinkSync(target: string, path: string): void {
+        const parts = this._splitPath(path)
+        const targetParts = target.startsWith("/") ? [] : parts.slice(0, parts.length - 1)
+        for (const part of this._splitPath(target)) {
+            if (part === "..") {
+                targetParts.pop()
+            } else {
+                targetParts.push(part)
+            }
+        }
+        const inode = this._lookup(targetParts)
+        if (inode == null) {
+            throw new FsError("ENOENT", "symlink", target, path)
+        }
+        this._link(inode, parts, path)
+        this.symlinks.set(parts.join("/"), target)
+    }
+
+    /// Makes `newPath` another name of the file at `existingPath`
+    linkSync(existingPath: string, newPath: string): void {
+        const inode = this._lookup(this._splitPath(existingPath))
+        if (inode == null) {
+            throw new FsError("ENOENT", "link", existingPath, newPath)
+        }
+        this._link(inode, this._splitPath(newPath), newPath)
+    }
+
+    /// Returns the contents of a file, decoded as UTF-8 if an encoding is given
+    readFileSync(path: string, options?: any): any {
+        const file = this._get(path, "open")
+        if (file instanceof Directory) {
+            throw new FsError("EISDIR", "read", path)
+        }
+        const data = (file as File).data
+        const encoding = typeof options === "string" ? options : options?.encoding
+        return encoding == null ? data : new TextDecoder().decode(data)
+    }
+
+    readdirSync(path: string, options?: any): string[] {
+        const dir = this._get(path, "scandir")
+        if (!(dir instanceof Directory)) {
+            throw new FsError("ENOTDIR", "scandir", path)
+        }
+        return Array.from(dir.contents.keys())
+    }
+
+    /// Returns information about a file or directory. Symbolic links are followed.
+    statSync(path: string): Stats {
+        const inode = this._get(path, "stat")
+        const isDirectory = inode instanceof Directory
+        const metadata = getInodeMetadata(inode)
+        const permissions = metadata?.mode != null && metadata.mode !== 0 ? metadata.mode & 0o7777 : (isDirectory ? 0o755 : 0o644)
+        const mtimeMs = metadata?.mtime ?? 0
+        return {
+            size: inode instanceof File ? inode.data.byteLength : 0,
+            mode: (isDirectory ? S_IFDIR : S_IFREG) | permissions,
+            mtimeMs,
+            mtime: new Date(mtimeMs),
+            isFile: () => inode instanceof File,
+            isDirectory: () => isDirectory,
+        }
+    }
+
+    existsSync(path: string): boolean {
+        try {
+            this._get(path, "access")
+            return true
+        } catch (error) {
+            return false
+        }
+    }
+
+    /// Removes a file or a symbolic link
+    unlinkSync(path: string): void {
+        const { parent, name, entry } = this._locate(path, "unlink")
+        if (entry == null) {
+            throw new FsError("ENOENT", "unlink", path)
+        }
+        // A symlink to a directory shares the directory's inode but can be unlinked
+        if (entry instanceof Directory && !this.symlinks.has(this._splitPath(path).join("/"))) {
+            throw new FsError("EISDIR", "unlink", path)
+        }
+        parent.delete(name)
+        this._moveSymlinks(path, null)
+    }
+
+    /// Removes a file, or a directory with `{ recursive: true }`. Missing paths are ignored with `{ force: true }`.
+    rmSync(path: string, options?: { recursive?: boolean, force?: boolean }): void {
+        let location: Location
+        try {
+            location = this._locate(path, "rm")
+        } catch (error) {
+            if (options?.force && error instanceof FsError && error.code === "ENOENT") {
+                return
+            }
+            throw error
+        }
+        const { parent, name, entry } = location
+        if (entry == null) {
+            if (options?.force) {
+                return
+            }
+            throw new FsError("ENOENT", "rm", path)
+        }
+        const isSymlink = this.symlinks.has(this._splitPath(path).join("/"))
+        if (entry instanceof Directory && !isSymlink && !options?.recursive) {
+            throw new FsError("EISDIR", "rm", path)
+        }
+        parent.delete(name)
+        this._moveSymlinks(path, null)
+    }
+
+    /// Moves a file or directory, replacing a file or an empty directory at the destination
+    renameSync(oldPath: string, newPath: string): void {
+        const from = this._locate(oldPath, "rename")
+        if (from.entry == null) {
+            throw new FsError("ENOENT", "rename", oldPath, newPath)
+        }
+        const to = this._locate(newPath, "rename")
+        if (to.entry === from.entry) {
+            return
+        }
+        if (to.entry instanceof Directory) {
+            if (!(from.entry instanceof Directory)) {
+                throw new FsError("EISDIR", "rename", oldPath, newPath)
+            } else if (to.entry.contents.size > 0) {
+                throw new FsError("ENOTEMPTY", "rename", oldPath, newPath)
+            }
+        } else if (to.entry != null && from.entry instanceof Directory) {
+            throw new FsError("ENOTDIR", "rename", oldPath, newPath)
+        }
+        const oldParts = this._splitPath(oldPath)
+        const newParts = this._splitPath(newPath)
+        if (from.entry instanceof Directory && newParts.length > oldParts.length && oldParts.every((part, i) => newParts[i] === part)) {
+            // Moving a directory into itself
+            throw new FsError("EINVAL", "rename", oldPath, newPath)
+        }
+        from.parent.delete(from.name)
+        to.parent.set(to.name, from.entry)
+        this._moveSymlinks(newPath, null)
+        this._moveSymlinks(oldPath, newPath)
+    }
+
+    /// Returns the target of a symbolic link
+    readlinkSync(path: string): string {
+        this._get(path, "readlink")
+        const target = this.symlinks.get(this._splitPath(path).join("/"))
+        if (target == null) {
+            throw new FsError("EINVAL", "readlink", path)
+        }
+        return target
+    }
+}